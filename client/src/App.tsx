@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Link, useLocation } from 'react-router-dom';
 import CustomerReservation from './components/CustomerReservation';
+import ManageReservation from './components/ManageReservation';
 import OwnerDashboard from './components/OwnerDashboard';
 import Settings from './components/Settings';
 import Menu from './components/Menu';
+import { supabase } from './lib/supabase';
 // import logoImage from './assets/zaytun-logo.png';
 import './App.css';
 
@@ -11,7 +13,8 @@ function AppContent() {
   const [currentView, setCurrentView] = useState('customer');
   const [adminMode, setAdminMode] = useState(false);
   const [showPinModal, setShowPinModal] = useState(false);
-  const [pinInput, setPinInput] = useState('');
+  const [loginEmail, setLoginEmail] = useState('');
+  const [loginPassword, setLoginPassword] = useState('');
   const location = useLocation();
 
   // Update currentView based on the current route
@@ -56,26 +59,29 @@ function AppContent() {
     setShowPinModal(true);
   };
 
-  // Function to verify pin and activate admin mode
-  const verifyPin = () => {
-    const correctPin = '1234'; // Default pin - kan later worden aangepast
-    if (pinInput === correctPin) {
+  // Sign staff in with their Supabase account and activate admin mode
+  const signIn = async () => {
+    const { error } = await supabase.auth.signInWithPassword({ email: loginEmail, password: loginPassword });
+    if (!error) {
       setAdminMode(true);
       localStorage.setItem('adminMode', 'true');
       setShowPinModal(false);
-      setPinInput('');
+      setLoginEmail('');
+      setLoginPassword('');
       // Direct doorsturen naar dashboard
       window.location.href = '/owner';
     } else {
-      alert('Onjuiste pincode. Probeer opnieuw.');
-      setPinInput('');
+      console.error('Error signing in:', error);
+      alert('Onjuist e-mailadres of wachtwoord. Probeer opnieuw.');
+      setLoginPassword('');
     }
   };
 
   // Function to close pin modal
   const closePinModal = () => {
     setShowPinModal(false);
-    setPinInput('');
+    setLoginEmail('');
+    setLoginPassword('');
   };
 
   // Hidden key combination for admin access
@@ -172,6 +178,7 @@ function AppContent() {
           <Routes>
             <Route path="/" element={<CustomerReservation />} />
             <Route path="/menu" element={<Menu />} />
+            <Route path="/reservering/:token" element={<ManageReservation />} />
             <Route path="/owner" element={<OwnerDashboard />} />
             <Route path="/dashboard" element={<OwnerDashboard />} />
             <Route path="/menu-beheer" element={<OwnerDashboard />} />
@@ -219,22 +226,29 @@ function AppContent() {
           <div className="pin-modal-overlay">
             <div className="pin-modal">
               <h3>Admin Toegang</h3>
-              <p>Voer de pincode in om toegang te krijgen tot het dashboard:</p>
+              <p>Log in met je personeelsaccount om toegang te krijgen tot het dashboard:</p>
               <input
-                type="password"
-                value={pinInput}
-                onChange={(e) => setPinInput(e.target.value)}
-                placeholder="Pincode"
+                type="email"
+                value={loginEmail}
+                onChange={(e) => setLoginEmail(e.target.value)}
+                placeholder="E-mailadres"
                 className="pin-input"
                 autoFocus
+              />
+              <input
+                type="password"
+                value={loginPassword}
+                onChange={(e) => setLoginPassword(e.target.value)}
+                placeholder="Wachtwoord"
+                className="pin-input"
                 onKeyPress={(e) => {
                   if (e.key === 'Enter') {
-                    verifyPin();
+                    signIn();
                   }
                 }}
               />
               <div className="pin-modal-buttons">
-                <button onClick={verifyPin} className="btn btn-primary">
+                <button onClick={signIn} className="btn btn-primary">
                   Inloggen
                 </button>
                 <button onClick={closePinModal} className="btn btn-secondary">
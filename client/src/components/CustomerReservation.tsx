@@ -1,15 +1,66 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Calendar, Clock, Users, MessageSquare, CheckCircle } from 'lucide-react';
+import { Calendar, CalendarPlus, Clock, Users, MessageSquare, CheckCircle, ListPlus } from 'lucide-react';
+import axios from 'axios';
 import { supabase } from '../lib/supabase';
+import {
+  BookingRules,
+  DEFAULT_BOOKING_RULES,
+  ACTIVE_RESERVATION_STATUSES,
+  parseBookingRules,
+  getOpeningHours,
+  getClosureMessage,
+  getPartyBookingRules,
+  generateTimeSlots,
+  getBookingWindowError as getRulesBookingWindowError,
+  getAvailableTables,
+  getTimeAvailability,
+  formatDateKey,
+  addDaysToDateKey,
+  getNearestAvailableTimes,
+  toServiceMinutes,
+  AvailabilityArea,
+  AreaPreference,
+  getOpenAreas,
+  getSeatableTables,
+  findPreferredTableAssignment,
+  filterTablesByNeeds,
+  isPacingLimitReached,
+  optimizeTableAssignments,
+  requiresApproval,
+  getDepositAmount,
+  hasCancellationFees,
+  describeCancellationPolicy,
+  AvailabilityReservation,
+  TABLE_ATTRIBUTES
+} from '../lib/availability';
+import { getManageReservationPath } from '../lib/manageToken';
+import { ALLERGEN_OPTIONS, DIET_OPTIONS } from '../lib/dietary';
+import { DEFAULT_TIME_ZONE, getRestaurantNow, getRestaurantToday, dateKeyToDate } from '../lib/restaurantTime';
+import {
+  InviteReservation,
+  RestaurantDetails,
+  CALENDAR_INVITE_FILENAME,
+  parseRestaurantDetails,
+  buildCalendarInvite,
+  getCalendarInviteDataUrl
+} from '../lib/calendarInvite';
 
 interface Table {
   id: string;
   name: string;
   seats: number;
+  combinable_with?: string[];
+  area_id?: string | null;
+  attributes?: string[] | null;
 }
 
+// How far ahead to look for other days with space when the selected day is full
+const ALTERNATIVE_DAYS_AHEAD = 14;
+const MAX_ALTERNATIVE_DATES = 3;
+
 interface ReservationData {
   table_id: string;
+  combined_table_ids: string[];
   customer_name: string;
   customer_email: string;
   customer_phone: string;
@@ -17,10 +68,15 @@ interface ReservationData {
   date: string;
   time: string;
   notes: string;
+  preferred_area_id: string;
+  allow_area_fallback: boolean;
+  needs: string[];
+  allergens: string[];
+  diets: string[];
 }
 
 const CustomerReservation: React.FC = () => {
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [selectedDate, setSelectedDate] = useState<Date>(dateKeyToDate(getRestaurantToday(DEFAULT_TIME_ZONE)));
   const [selectedTime, setSelectedTime] = useState<string>('19:00');
   const [availableDates, setAvailableDates] = useState<Date[]>([]);
   const [dateOffset, setDateOffset] = useState<number>(0);
@@ -29,183 +85,243 @@ const CustomerReservation: React.FC = () => {
   const [submitting, setSubmitting] = useState(false);
   const [success, setSuccess] = useState(false);
   const [error, setError] = useState<string>('');
+  const [manageLink, setManageLink] = useState<string>('');
+  const [pendingApproval, setPendingApproval] = useState(false);
+  const [paidDeposit, setPaidDeposit] = useState<number>(0);
+  const [policyAccepted, setPolicyAccepted] = useState(false);
+  const [depositRequired, setDepositRequired] = useState(false); // Set by the server, e.g. after past no-shows
+  const [bookedReservation, setBookedReservation] = useState<InviteReservation | null>(null);
+  const [restaurant, setRestaurant] = useState<RestaurantDetails>(parseRestaurantDetails([]));
   
   // New flow state
   const [currentStep, setCurrentStep] = useState<'guests' | 'date' | 'details'>('guests');
   const [timeAvailability, setTimeAvailability] = useState<{[key: string]: boolean}>({});
   const [checkingAvailability, setCheckingAvailability] = useState(false);
+  // Full slot the guest clicked on, and the next days that still have space
+  const [requestedTime, setRequestedTime] = useState<string>('');
+  const [alternativeDates, setAlternativeDates] = useState<string[]>([]);
+
+  // Waitlist for fully booked days
+  const [showWaitlistForm, setShowWaitlistForm] = useState(false);
+  const [waitlistWindow, setWaitlistWindow] = useState<{ from: string; to: string }>({ from: '', to: '' });
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [waitlistJoined, setWaitlistJoined] = useState(false);
+
+  // Opening hours, duration and advance booking rules as configured in Settings
+  const [bookingRules, setBookingRules] = useState<BookingRules>(DEFAULT_BOOKING_RULES);
+  const [areas, setAreas] = useState<AvailabilityArea[]>([]);
 
   const [formData, setFormData] = useState<ReservationData>({
     table_id: '',
+    combined_table_ids: [],
     customer_name: '',
     customer_email: '',
     customer_phone: '',
     guests: 0,
     date: '',
     time: '',
-    notes: ''
+    notes: '',
+    preferred_area_id: '',
+    allow_area_fallback: false,
+    needs: [],
+    allergens: [],
+    diets: []
   });
 
-  const timeSlots = useMemo(() => [
-    '17:00', '17:30', '18:00', '18:30', '19:00', '19:30',
-    '20:00', '20:30', '21:00', '21:30', '22:00'
-  ], []);
+  const fetchBookingSettings = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('restaurant_settings')
+        .select('setting_key, setting_value');
+
+      if (error) throw error;
+
+      // Holidays, private events and other exceptions to the weekly opening hours
+      const { timeZone } = parseBookingRules(data || []);
+      const { data: closuresData, error: closuresError } = await supabase
+        .from('closures')
+        .select('*')
+        .gte('date', getRestaurantToday(timeZone));
+
+      if (closuresError) throw closuresError;
+      setBookingRules(parseBookingRules(data || [], closuresData || []));
+      setRestaurant(parseRestaurantDetails(data || []));
+
+      // Seating areas guests can state a preference for
+      const { data: areasData, error: areasError } = await supabase
+        .from('areas')
+        .select('*')
+        .order('name');
 
-  // Generate available dates (next 30 days)
+      if (areasError) throw areasError;
+      setAreas(areasData || []);
+    } catch (error) {
+      console.error('Error fetching booking settings:', error);
+    }
+  }, []);
+
+  // Whether the restaurant is open on a given date
+  const isOpenOnDate = useCallback((date: Date): boolean => {
+    return !!getOpeningHours(bookingRules, formatDateKey(date));
+  }, [bookingRules]);
+
+  // Booking rules with the reservation duration for the chosen party size on a date
+  const getRulesForDate = useCallback((dateKey: string): BookingRules => {
+    return getPartyBookingRules(bookingRules, dateKey, formData.guests);
+  }, [bookingRules, formData.guests]);
+
+  const timeSlots = useMemo(() => {
+    const dateKey = formatDateKey(selectedDate);
+    return generateTimeSlots(getRulesForDate(dateKey), dateKey);
+  }, [selectedDate, getRulesForDate]);
+
+  // Generate available dates (today up to the maximum advance booking window). Closed days
+  // stay in the list greyed out; the selection moves off a closed day to the first open one.
   const generateAvailableDates = useCallback(() => {
     const dates = [];
-    const today = new Date();
-    for (let i = 0; i < 30; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
-      dates.push(date);
+    const today = getRestaurantToday(bookingRules.timeZone);
+    for (let i = 0; i <= bookingRules.maxAdvanceDays; i++) {
+      dates.push(dateKeyToDate(addDaysToDateKey(today, i)));
     }
     setAvailableDates(dates);
-  }, []);
+    setSelectedDate(prev => formatDateKey(prev) >= today && isOpenOnDate(prev)
+      ? prev
+      : dates.find(date => isOpenOnDate(date)) || dates[0]);
+  }, [bookingRules.maxAdvanceDays, bookingRules.timeZone, isOpenOnDate]);
 
-  // Configuration for reservation duration and buffer
-  const RESERVATION_DURATION_HOURS = 2; // Standard reservation duration
-  const BUFFER_MINUTES = 15; // Buffer time before and after reservation
+  // Check the advance booking rules from Settings, returns the reason when the slot can't be booked
+  const getBookingWindowError = useCallback((date: Date, time: string): string | null => {
+    return getRulesBookingWindowError(bookingRules, formatDateKey(date), time, getRestaurantNow(bookingRules.timeZone));
+  }, [bookingRules]);
 
-  // Helper function to check time overlap
-  const hasTimeOverlap = (startTime1: string, endTime1: string, startTime2: string, endTime2: string): boolean => {
-    return startTime1 < endTime2 && startTime2 < endTime1;
-  };
+  // Areas in use on the selected date (e.g. the terrace only in summer)
+  const openAreas = useMemo(() => {
+    return getOpenAreas(areas, formatDateKey(selectedDate));
+  }, [areas, selectedDate]);
 
-  // Helper function to add minutes to time string
-  const addMinutesToTime = (timeStr: string, minutes: number): string => {
-    const [hours, mins] = timeStr.split(':').map(Number);
-    const totalMinutes = hours * 60 + mins + minutes;
-    const newHours = Math.floor(totalMinutes / 60);
-    const newMins = totalMinutes % 60;
-    return `${newHours.toString().padStart(2, '0')}:${newMins.toString().padStart(2, '0')}`;
-  };
+  // Seating preference of the guest, another area only when they agreed to it
+  const areaPreference: AreaPreference = useMemo(() => ({
+    areaId: formData.preferred_area_id || null,
+    allowFallback: formData.allow_area_fallback
+  }), [formData.preferred_area_id, formData.allow_area_fallback]);
+
+  // Tables and active reservations from dateStr up to and including endDateStr
+  const fetchTablesAndReservations = useCallback(async (dateStr: string, endDateStr: string = dateStr) => {
+    const { data: allTables, error: tablesError } = await supabase
+      .from('tables')
+      .select('*');
+    
+    if (tablesError) throw tablesError;
+    
+    const { data: allReservations, error: reservationsError } = await supabase
+      .from('reservations')
+      .select('id, date, table_id, combined_table_ids, time, guests, status, duration_hours, buffer_minutes, preferred_area_id, allow_area_fallback, needs, table_locked')
+      .gte('date', dateStr)
+      .lte('date', endDateStr)
+      .in('status', ACTIVE_RESERVATION_STATUSES);
+    
+    if (reservationsError) throw reservationsError;
+
+    return { allTables: allTables || [], allReservations: allReservations || [] };
+  }, []);
+
+  // This booking as the table optimiser sees it
+  const getBookingRequest = useCallback((time: string, rules: BookingRules): AvailabilityReservation => ({
+    table_id: '',
+    time,
+    guests: formData.guests,
+    duration_hours: rules.durationHours,
+    buffer_minutes: rules.bufferMinutes,
+    needs: formData.needs,
+    preferred_area_id: formData.preferred_area_id || null,
+    allow_area_fallback: formData.allow_area_fallback
+  }), [formData.guests, formData.needs, formData.preferred_area_id, formData.allow_area_fallback]);
 
   const checkTimeAvailability = useCallback(async () => {
     if (!selectedDate || !formData.guests) return;
     
     setCheckingAvailability(true);
     try {
-      const dateStr = selectedDate.toISOString().split('T')[0];
-      
-      // Get all tables
-      const { data: allTables, error: tablesError } = await supabase
-        .from('tables')
-        .select('*');
-      
-      if (tablesError) throw tablesError;
+      // Load the following days as well, so alternatives can be suggested without extra requests
+      const dateKey = formatDateKey(selectedDate);
+      const now = getRestaurantNow(bookingRules.timeZone);
+      const lastBookableDate = addDaysToDateKey(now.date, bookingRules.maxAdvanceDays);
+      const endDateKey = [addDaysToDateKey(dateKey, ALTERNATIVE_DAYS_AHEAD), lastBookableDate].sort()[0];
+      const { allTables, allReservations } = await fetchTablesAndReservations(dateKey, endDateKey);
+      const reservationsOn = (date: string) => allReservations.filter(reservation => reservation.date === date);
       
-      // Get all reservations for the date
-      const { data: allReservations, error: reservationsError } = await supabase
-        .from('reservations')
-        .select('table_id, time, status, duration_hours, buffer_minutes')
-        .eq('date', dateStr)
-        .in('status', ['confirmed', 'arrived', 'in_progress']);
-      
-      if (reservationsError) throw reservationsError;
-      
-      // Check availability for each time slot
-      const availability: {[key: string]: boolean} = {};
+      const matchingTables = filterTablesByNeeds(allTables, formData.needs);
+      const seatableTables = (date: string) => getSeatableTables(matchingTables, areas, date, areaPreference);
+
+      // A full slot can still be offered when moving unseated reservations frees a table
+      const getSlotAvailability = (date: string, slots: string[], rules: BookingRules) => {
+        const reservations = reservationsOn(date);
+        const availability = getTimeAvailability(seatableTables(date), reservations, slots, formData.guests, rules, date);
+        for (const time of slots.filter(slot => !availability[slot])) {
+          availability[time] = !isPacingLimitReached(rules, date, reservations, time, formData.guests) &&
+            !!optimizeTableAssignments(allTables, areas, reservations, rules, date, getBookingRequest(time, rules));
+        }
+        return availability;
+      };
       
-      for (const timeSlot of timeSlots) {
-        const bufferStartTime = addMinutesToTime(timeSlot, -BUFFER_MINUTES);
-        const reservationEndTime = addMinutesToTime(timeSlot, RESERVATION_DURATION_HOURS * 60);
-        const bufferEndTime = addMinutesToTime(reservationEndTime, BUFFER_MINUTES);
-        
-        // Check each table for availability at this time
-        const availableTables = allTables.filter((table: Table) => {
-          if (table.seats < formData.guests) return false; // Not enough seats
-          
-          const tableReservations = allReservations.filter((r: any) => r.table_id === table.id);
-          
-          // Check if any reservation overlaps with this time slot
-          for (const reservation of tableReservations) {
-            const existingTime = reservation.time;
-            const existingDuration = reservation.duration_hours || RESERVATION_DURATION_HOURS;
-            const existingBuffer = reservation.buffer_minutes || BUFFER_MINUTES;
-            
-            const existingBufferStart = addMinutesToTime(existingTime, -existingBuffer);
-            const existingReservationEnd = addMinutesToTime(existingTime, existingDuration * 60);
-            const existingBufferEnd = addMinutesToTime(existingReservationEnd, existingBuffer);
-            
-            if (hasTimeOverlap(bufferStartTime, bufferEndTime, existingBufferStart, existingBufferEnd)) {
-              return false; // Table is not available
-            }
-          }
-          
-          return true; // Table is available
-        });
-        
-        availability[timeSlot] = availableTables.length > 0;
+      setTimeAvailability(getSlotAvailability(dateKey, timeSlots, getRulesForDate(dateKey)));
+
+      // Following days with at least one bookable slot for the party
+      const datesWithSpace: string[] = [];
+      for (let offset = 1; datesWithSpace.length < MAX_ALTERNATIVE_DATES; offset++) {
+        const date = addDaysToDateKey(dateKey, offset);
+        if (date > endDateKey) break;
+
+        const rules = getRulesForDate(date);
+        const slots = generateTimeSlots(rules, date)
+          .filter(time => !getRulesBookingWindowError(rules, date, time, now));
+        const availability = getSlotAvailability(date, slots, rules);
+        if (slots.some(time => availability[time])) {
+          datesWithSpace.push(date);
+        }
       }
-      
-      setTimeAvailability(availability);
+      setAlternativeDates(datesWithSpace);
     } catch (error) {
       console.error('Error checking time availability:', error);
       setError('Fout bij het controleren van beschikbaarheid');
     } finally {
       setCheckingAvailability(false);
     }
-  }, [selectedDate, formData.guests, timeSlots]);
+  }, [selectedDate, formData.guests, formData.needs, timeSlots, bookingRules, areas, areaPreference, getRulesForDate, getBookingRequest, fetchTablesAndReservations]);
 
   const checkAvailability = useCallback(async () => {
     setLoading(true);
     try {
-      const dateStr = selectedDate.toISOString().split('T')[0];
-      
-      // Get all tables
-      const { data: allTables, error: tablesError } = await supabase
-        .from('tables')
-        .select('*');
-      
-      if (tablesError) throw tablesError;
+      const dateKey = formatDateKey(selectedDate);
+      const { allTables, allReservations } = await fetchTablesAndReservations(dateKey);
+      const rules = getRulesForDate(dateKey);
       
-      // Calculate time slots with buffer for overlap check
-      const bufferStartTime = addMinutesToTime(selectedTime, -BUFFER_MINUTES);
-      const reservationEndTime = addMinutesToTime(selectedTime, RESERVATION_DURATION_HOURS * 60);
-      const bufferEndTime = addMinutesToTime(reservationEndTime, BUFFER_MINUTES);
-      
-      // Get all reservations for the date
-      const { data: allReservations, error: reservationsError } = await supabase
-        .from('reservations')
-        .select('table_id, time, status, duration_hours, buffer_minutes')
-        .eq('date', dateStr)
-        .in('status', ['confirmed', 'arrived', 'in_progress']);
-      
-      if (reservationsError) throw reservationsError;
-      
-      // Check each table for availability
-      const availableTables = allTables.filter((table: Table) => {
-        const tableReservations = allReservations.filter((r: any) => r.table_id === table.id);
-        
-        // Check if any reservation overlaps with the requested time
-        for (const reservation of tableReservations) {
-          const existingTime = reservation.time;
-          const existingDuration = reservation.duration_hours || RESERVATION_DURATION_HOURS;
-          const existingBuffer = reservation.buffer_minutes || BUFFER_MINUTES;
-          
-          const existingBufferStart = addMinutesToTime(existingTime, -existingBuffer);
-          const existingReservationEnd = addMinutesToTime(existingTime, existingDuration * 60);
-          const existingBufferEnd = addMinutesToTime(existingReservationEnd, existingBuffer);
-          
-          if (hasTimeOverlap(bufferStartTime, bufferEndTime, existingBufferStart, existingBufferEnd)) {
-            return false; // Table is not available
-          }
-        }
-        
-        return true; // Table is available
-      });
+      // Find the best table for the number of guests, or joinable tables for large parties,
+      // among the tables that meet the guest's needs, in the preferred area first
+      const assignment = findPreferredTableAssignment(
+        filterTablesByNeeds(allTables, formData.needs), areas, allReservations, selectedTime, formData.guests, rules, dateKey, areaPreference
+      );
       
-      // Find the best table for the number of guests
-      const suitableTables = availableTables.filter((table: Table) => table.seats >= formData.guests);
-      const bestTable = suitableTables.sort((a: Table, b: Table) => a.seats - b.seats)[0]; // Smallest suitable table
+      setAvailableTables(getAvailableTables(allTables, allReservations, selectedTime, rules));
       
-      setAvailableTables(availableTables);
+      // Without a free table, re-plan the day's unseated reservations to make room
+      // (the server moves them when the booking is made)
+      const plan = assignment ? null : optimizeTableAssignments(
+        allTables, areas, allReservations, rules, dateKey, getBookingRequest(selectedTime, rules)
+      );
       
-      if (bestTable) {
-        setFormData((prev: ReservationData) => ({ ...prev, table_id: bestTable.id }));
+      if (assignment) {
+        setFormData((prev: ReservationData) => ({
+          ...prev,
+          table_id: assignment[0].id,
+          combined_table_ids: assignment.slice(1).map((table: Table) => table.id)
+        }));
+      } else if (plan?.bookingTableIds) {
+        const [mainTableId, ...joinedTableIds] = plan.bookingTableIds;
+        setAvailableTables(allTables);
+        setFormData((prev: ReservationData) => ({ ...prev, table_id: mainTableId, combined_table_ids: joinedTableIds }));
       } else {
-        setFormData((prev: ReservationData) => ({ ...prev, table_id: '' }));
+        setFormData((prev: ReservationData) => ({ ...prev, table_id: '', combined_table_ids: [] }));
       }
     } catch (error) {
       console.error('Error checking availability:', error);
@@ -213,7 +329,11 @@ const CustomerReservation: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [selectedDate, selectedTime, formData.guests]);
+  }, [selectedDate, selectedTime, formData.guests, formData.needs, areas, areaPreference, getRulesForDate, getBookingRequest, fetchTablesAndReservations]);
+
+  useEffect(() => {
+    fetchBookingSettings();
+  }, [fetchBookingSettings]);
 
   useEffect(() => {
     generateAvailableDates();
@@ -226,6 +346,13 @@ const CustomerReservation: React.FC = () => {
     }
   }, [selectedDate, formData.guests, checkTimeAvailability]);
 
+  // Drop an area preference that isn't available on the newly selected date
+  useEffect(() => {
+    if (formData.preferred_area_id && !openAreas.some(area => area.id === formData.preferred_area_id)) {
+      setFormData((prev: ReservationData) => ({ ...prev, preferred_area_id: '' }));
+    }
+  }, [openAreas, formData.preferred_area_id]);
+
   // Check final availability when time is selected
   useEffect(() => {
     if (selectedDate && selectedTime && formData.guests) {
@@ -248,8 +375,25 @@ const CustomerReservation: React.FC = () => {
     }));
   };
 
+  const handleNeedChange = (need: string, checked: boolean) => {
+    setFormData((prev: ReservationData) => ({
+      ...prev,
+      needs: checked ? [...prev.needs, need] : prev.needs.filter(n => n !== need)
+    }));
+  };
+
+  const handleDietaryChange = (field: 'allergens' | 'diets', value: string, checked: boolean) => {
+    setFormData((prev: ReservationData) => ({
+      ...prev,
+      [field]: checked ? [...prev[field], value] : prev[field].filter(v => v !== value)
+    }));
+  };
+
   const handleDateChange = (date: Date) => {
     setSelectedDate(date);
+    setShowWaitlistForm(false);
+    setWaitlistJoined(false);
+    setRequestedTime('');
     // Automatically check time availability when date is selected
     if (formData.guests > 0) {
       checkTimeAvailability();
@@ -258,12 +402,56 @@ const CustomerReservation: React.FC = () => {
 
   const handleTimeChange = (time: string) => {
     setSelectedTime(time);
+    setRequestedTime('');
+    setError('');
     setFormData((prev: ReservationData) => ({
       ...prev,
       time: time
     }));
   };
 
+  // Jump to a suggested day, scrolling the date picker so it is visible
+  const handleAlternativeDateChange = (dateKey: string) => {
+    const index = availableDates.findIndex(date => formatDateKey(date) === dateKey);
+    if (index === -1) return;
+    setDateOffset(Math.max(0, Math.min(index, availableDates.length - 5)));
+    handleDateChange(availableDates[index]);
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!formData.customer_name || (!formData.customer_email && !formData.customer_phone)) {
+      setError('Vul je naam en een e-mailadres of telefoonnummer in om op de wachtlijst te komen.');
+      return;
+    }
+
+    setJoiningWaitlist(true);
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('waitlist')
+        .insert([{
+          customer_name: formData.customer_name,
+          customer_email: formData.customer_email,
+          customer_phone: formData.customer_phone,
+          guests: formData.guests,
+          date: formatDateKey(selectedDate),
+          time_from: waitlistWindow.from || timeSlots[0],
+          time_to: waitlistWindow.to || timeSlots[timeSlots.length - 1],
+          notes: formData.notes,
+          status: 'waiting'
+        }]);
+
+      if (error) throw error;
+
+      setWaitlistJoined(true);
+      setShowWaitlistForm(false);
+    } catch (error: any) {
+      console.error('Error joining waitlist:', error);
+      setError(error.message || 'Fout bij het aanmelden voor de wachtlijst');
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -271,6 +459,14 @@ const CustomerReservation: React.FC = () => {
     setError('');
 
     try {
+      // Re-check the advance booking rules, the page may have been open for a while
+      const bookingWindowError = getBookingWindowError(selectedDate, selectedTime);
+      if (bookingWindowError) {
+        setError(bookingWindowError);
+        setSubmitting(false);
+        return;
+      }
+
       // Check if a table is available
       if (!formData.table_id) {
         setError('Geen tafel beschikbaar voor de geselecteerde datum en tijd. Probeer een andere tijd.');
@@ -278,60 +474,134 @@ const CustomerReservation: React.FC = () => {
         return;
       }
 
+      // The server re-checks the slot and creates the reservation, one booking per date at a time
       const reservationData = {
         table_id: formData.table_id,
+        combined_table_ids: formData.combined_table_ids,
         customer_name: formData.customer_name,
         customer_email: formData.customer_email,
         customer_phone: formData.customer_phone,
         guests: formData.guests,
-        date: selectedDate.toISOString().split('T')[0],
+        date: formatDateKey(selectedDate),
         time: selectedTime,
         notes: formData.notes,
-        status: 'confirmed'
+        preferred_area_id: formData.preferred_area_id || null,
+        allow_area_fallback: formData.allow_area_fallback,
+        needs: formData.needs,
+        allergens: formData.allergens,
+        diets: formData.diets,
+        policy_accepted: policyAccepted,
+        expected_deposit: depositAmount
       };
 
-      const { data, error } = await supabase
-        .from('reservations')
-        .insert([reservationData])
-        .select()
-        .single();
+      const { data } = await axios.post('/api/reservations', reservationData);
 
-      if (error) throw error;
+      // The payment provider needs the guest to pay on its own page first
+      if (data.checkout_url) {
+        window.location.href = data.checkout_url;
+        return;
+      }
 
       console.log('Reservation created:', data);
+      setManageLink(`${window.location.origin}${getManageReservationPath(data.manage_token)}`);
+      setPendingApproval(data.status === 'pending');
+      setPaidDeposit(data.deposit_status === 'paid' ? Number(data.deposit_amount) : 0);
+      setBookedReservation(data);
       setSuccess(true);
       
       // Reset form
       setFormData({
         table_id: '',
+        combined_table_ids: [],
         customer_name: '',
         customer_email: '',
         customer_phone: '',
         guests: 0,
         date: '',
         time: '',
-        notes: ''
+        notes: '',
+        preferred_area_id: '',
+        allow_area_fallback: false,
+        needs: [],
+        allergens: [],
+        diets: []
       });
-      setSelectedDate(new Date());
+      setSelectedDate(dateKeyToDate(getRestaurantToday(bookingRules.timeZone)));
       setSelectedTime('19:00');
+      setPolicyAccepted(false);
+      setDepositRequired(false);
     } catch (error: any) {
       console.error('Error creating reservation:', error);
-      setError(error.message || 'Error creating reservation');
+      setError(error.response?.data?.error || error.message || 'Error creating reservation');
+
+      // Someone else just took the slot: show the fresh availability and let the guest pick again
+      if (error.response?.data?.code === 'SLOT_TAKEN') {
+        setRequestedTime(selectedTime);
+        setCurrentStep('date');
+        checkTimeAvailability();
+        checkAvailability();
+      }
+
+      // The server asks a deposit we didn't show yet: show it and let the guest confirm again
+      if (error.response?.data?.code === 'DEPOSIT_REQUIRED') {
+        setDepositRequired(true);
+      }
     } finally {
       setSubmitting(false);
     }
   };
 
-  // Get the assigned table info for display
-  const assignedTable = availableTables.find((table: Table) => table.id === formData.table_id);
+  // Get the assigned table(s) info for display
+  const assignedTables = [formData.table_id, ...formData.combined_table_ids]
+    .map(tableId => availableTables.find((table: Table) => table.id === tableId))
+    .filter(Boolean) as Table[];
+  const assignedTable = assignedTables.length > 0 ? {
+    name: assignedTables.map(table => table.name).join(' + '),
+    seats: assignedTables.reduce((total, table) => total + table.seats, 0)
+  } : null;
+  const assignedArea = assignedTables.length > 0 ? areas.find(area => area.id === assignedTables[0].area_id) : undefined;
+  const isOutsidePreferredArea = !!formData.preferred_area_id && !!assignedTable &&
+    assignedTables[0].area_id !== formData.preferred_area_id;
+
+  // Explain why slots are blocked by the advance booking rules
+  const bookingWindowNotice = timeSlots
+    .map(time => getBookingWindowError(selectedDate, time))
+    .find(reason => reason !== null);
+
+  // Nearest bookable slots around the full slot the guest asked for
+  const bookableAvailability: { [time: string]: boolean } = {};
+  for (const time of timeSlots) {
+    bookableAvailability[time] = !!timeAvailability[time] && !getBookingWindowError(selectedDate, time);
+  }
+  const alternativeTimes = requestedTime ? getNearestAvailableTimes(bookableAvailability, requestedTime) : [];
+
+  // Deposit the guest pays when booking, for large groups and special dates
+  const depositAmount = getDepositAmount(getRulesForDate(formatDateKey(selectedDate)), formatDateKey(selectedDate), formData.guests, depositRequired);
+
+  // Cancellation policy the guest has to accept before booking
+  const cancellationPolicy = getRulesForDate(formatDateKey(selectedDate)).cancellation;
+  const mustAcceptPolicy = hasCancellationFees(cancellationPolicy);
+
+  // Every slot of the selected day is taken, offer the waitlist instead
+  const isFullyBooked = !checkingAvailability && timeSlots.length > 0 &&
+    timeSlots.every(time => !timeAvailability[time] || !!getBookingWindowError(selectedDate, time));
 
   if (success) {
     return (
       <div className="container-narrow">
         <div className="card text-center">
           <CheckCircle size={80} className="text-success" style={{ margin: '0 auto 2rem' }} />
-          <h2 className="card-title text-success">Reservering Bevestigd!</h2>
-          <p className="text-lg">Bedankt voor je reservering! Je tafel is automatisch toegewezen.</p>
+          {pendingApproval ? (
+            <>
+              <h2 className="card-title text-success">Aanvraag Ontvangen!</h2>
+              <p className="text-lg">Bedankt voor je aanvraag! We houden de tafel voor je vast tot het restaurant je reservering heeft beoordeeld.</p>
+            </>
+          ) : (
+            <>
+              <h2 className="card-title text-success">Reservering Bevestigd!</h2>
+              <p className="text-lg">Bedankt voor je reservering! Je tafel is automatisch toegewezen.</p>
+            </>
+          )}
           {assignedTable && (
             <div className="alert alert-info" style={{ margin: '1rem 0' }}>
               <p><strong>Je tafel:</strong> {assignedTable.name} ({assignedTable.seats} plaatsen)</p>
@@ -340,9 +610,36 @@ const CustomerReservation: React.FC = () => {
               <p><strong>Gasten:</strong> {formData.guests}</p>
             </div>
           )}
+          {paidDeposit > 0 && (
+            <p><strong>Aanbetaling ontvangen:</strong> €{paidDeposit.toFixed(2)}</p>
+          )}
           <p className="text-muted">
-            Je ontvangt een bevestigingsmail op {formData.customer_email}.
+            {pendingApproval
+              ? `Je ontvangt een bericht op ${formData.customer_email} zodra je aanvraag is goedgekeurd of afgewezen.`
+              : `Je ontvangt een bevestigingsmail op ${formData.customer_email}.`}
           </p>
+          {bookedReservation && !pendingApproval && (
+            <a
+              className="btn btn-secondary"
+              href={getCalendarInviteDataUrl(buildCalendarInvite(bookedReservation, {
+                method: 'PUBLISH',
+                restaurant,
+                timeZone: bookingRules.timeZone,
+                manageUrl: manageLink
+              }))}
+              download={CALENDAR_INVITE_FILENAME}
+            >
+              <CalendarPlus size={16} style={{ marginRight: '8px' }} />
+              Zet in je agenda
+            </a>
+          )}
+          {manageLink && (
+            <div className="alert alert-info" style={{ margin: '1rem 0' }}>
+              <p><strong>Reservering wijzigen of annuleren?</strong></p>
+              <p>Bewaar deze persoonlijke link, hiermee kun je je reservering zelf beheren:</p>
+              <p><a href={manageLink}>{manageLink}</a></p>
+            </div>
+          )}
           <button 
             className="btn btn-primary btn-lg mt-6"
             onClick={() => setSuccess(false)}
@@ -400,6 +697,22 @@ const CustomerReservation: React.FC = () => {
                   </button>
                 ))}
               </div>
+              <div style={{ marginTop: '1.5rem' }}>
+                <label className="form-label">Toegankelijkheid & wensen</label>
+                <div className="flex" style={{ gap: '1rem', flexWrap: 'wrap' }}>
+                  {TABLE_ATTRIBUTES.map(attribute => (
+                    <label key={attribute.key} className="flex" style={{ alignItems: 'center', gap: '0.5rem' }}>
+                      <input
+                        type="checkbox"
+                        checked={formData.needs.includes(attribute.key)}
+                        onChange={(e) => handleNeedChange(attribute.key, e.target.checked)}
+                      />
+                      <span>{attribute.needLabel}</span>
+                    </label>
+                  ))}
+                </div>
+                <small className="text-muted">We wijzen alleen tafels toe die hierbij passen.</small>
+              </div>
               <div className="flex" style={{ justifyContent: 'flex-end', marginTop: '1rem' }}>
                 <button
                   type="button"
@@ -432,15 +745,18 @@ const CustomerReservation: React.FC = () => {
                   </button>
                   <div className="date-cards">
                     {availableDates.slice(dateOffset, dateOffset + 5).map((date: Date, index: number) => {
-                      const isToday = date.toDateString() === new Date().toDateString();
+                      const today = getRestaurantToday(bookingRules.timeZone);
+                      const isToday = formatDateKey(date) === today;
                       const isSelected = date.toDateString() === selectedDate.toDateString();
-                      const isPast = date < new Date() && !isToday;
+                      const isPast = formatDateKey(date) < today;
+                      const isClosed = !isOpenOnDate(date);
                       
                       return (
                         <div
                           key={date.toISOString()}
-                          className={`date-card ${isSelected ? 'selected' : ''} ${isPast ? 'unavailable' : ''}`}
-                          onClick={() => !isPast && handleDateChange(date)}
+                          title={getClosureMessage(bookingRules, formatDateKey(date)) || undefined}
+                          className={`date-card ${isSelected ? 'selected' : ''} ${isPast || isClosed ? 'unavailable' : ''}`}
+                          onClick={() => !isPast && !isClosed && handleDateChange(date)}
                         >
                           <div className="date-day">
                             {isToday ? 'Vandaag' : date.toLocaleDateString('nl-NL', { weekday: 'short' })}
@@ -449,9 +765,11 @@ const CustomerReservation: React.FC = () => {
                           <div className="date-month">
                             {date.toLocaleDateString('nl-NL', { month: 'short' }).toUpperCase()}
                           </div>
-                          {isPast && (
+                          {isPast ? (
                             <div className="date-status">Niet beschikbaar</div>
-                          )}
+                          ) : isClosed ? (
+                            <div className="date-status">Gesloten</div>
+                          ) : null}
                         </div>
                       );
                     })}
@@ -466,6 +784,33 @@ const CustomerReservation: React.FC = () => {
                   </button>
                 </div>
               </div>
+              {/* Seating area preference */}
+              {openAreas.length > 0 && (
+                <div style={{ marginTop: '2rem' }}>
+                  <label className="form-label">Voorkeur zitplaats</label>
+                  <select
+                    value={formData.preferred_area_id}
+                    onChange={(e) => setFormData((prev: ReservationData) => ({ ...prev, preferred_area_id: e.target.value }))}
+                    className="form-input"
+                  >
+                    <option value="">Geen voorkeur</option>
+                    {openAreas.map(area => (
+                      <option key={area.id} value={area.id}>{area.name}</option>
+                    ))}
+                  </select>
+                  {formData.preferred_area_id && (
+                    <label className="flex" style={{ alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem' }}>
+                      <input
+                        type="checkbox"
+                        checked={formData.allow_area_fallback}
+                        onChange={(e) => setFormData((prev: ReservationData) => ({ ...prev, allow_area_fallback: e.target.checked }))}
+                      />
+                      <span>Een tafel in een andere ruimte is ook goed als mijn voorkeur vol is</span>
+                    </label>
+                  )}
+                </div>
+              )}
+
               {/* Show time selection directly under date selection */}
               {selectedDate && formData.guests > 0 && (
                 <div style={{ marginTop: '2rem' }}>
@@ -478,20 +823,41 @@ const CustomerReservation: React.FC = () => {
                       Beschikbaarheid controleren...
                     </div>
                   )}
+                  {timeSlots.length === 0 ? (
+                    <div className="alert alert-warning">
+                      <p>
+                        {getClosureMessage(bookingRules, formatDateKey(selectedDate)) || (isOpenOnDate(selectedDate)
+                          ? 'Er zijn op deze dag geen tijden beschikbaar. Kies een andere datum.'
+                          : 'Op deze dag zijn we gesloten. Kies een andere datum.')}
+                      </p>
+                    </div>
+                  ) : getClosureMessage(bookingRules, formatDateKey(selectedDate)) && (
+                    <div className="alert alert-info">
+                      <p>{getClosureMessage(bookingRules, formatDateKey(selectedDate))}</p>
+                    </div>
+                  )}
                   <div className="time-selector">
                     <div className="time-cards">
                       {timeSlots.map(time => {
-                        const isAvailable = timeAvailability[time];
+                        const windowError = getBookingWindowError(selectedDate, time);
+                        const isAvailable = !windowError && timeAvailability[time];
                         const isSelected = selectedTime === time;
                         
                         return (
                           <div
                             key={time}
+                            title={windowError || undefined}
                             className={`time-card ${isSelected ? 'selected' : ''} ${!isAvailable ? 'unavailable' : ''}`}
-                            onClick={() => isAvailable && handleTimeChange(time)}
+                            onClick={() => {
+                              if (isAvailable) {
+                                handleTimeChange(time);
+                              } else if (!windowError) {
+                                setRequestedTime(time);
+                              }
+                            }}
                             style={{
                               opacity: !isAvailable ? 0.5 : 1,
-                              cursor: !isAvailable ? 'not-allowed' : 'pointer',
+                              cursor: windowError ? 'not-allowed' : 'pointer',
                               position: 'relative'
                             }}
                           >
@@ -507,7 +873,7 @@ const CustomerReservation: React.FC = () => {
                                 fontWeight: '600',
                                 textAlign: 'center'
                               }}>
-                                Vol
+                                {windowError ? 'Te laat' : 'Vol'}
                               </div>
                             )}
                           </div>
@@ -515,6 +881,164 @@ const CustomerReservation: React.FC = () => {
                       })}
                     </div>
                   </div>
+                  {bookingWindowNotice && (
+                    <p className="text-muted" style={{ marginTop: '0.5rem', fontSize: '0.9rem' }}>
+                      {bookingWindowNotice}
+                    </p>
+                  )}
+
+                  {/* Alternatives for a full slot or a fully booked day */}
+                  {!checkingAvailability && (requestedTime || isFullyBooked) && (
+                    <div className="alert alert-info" style={{ marginTop: '1rem' }}>
+                      {requestedTime && (
+                        <>
+                          <p>
+                            Om {requestedTime} is er geen tafel meer vrij voor {formData.guests} {formData.guests === 1 ? 'gast' : 'gasten'}.
+                            {alternativeTimes.length > 0 && ' Deze tijden zijn nog wel beschikbaar:'}
+                          </p>
+                          {alternativeTimes.length > 0 && (
+                            <div className="flex" style={{ gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
+                              {alternativeTimes.map(time => (
+                                <button
+                                  key={time}
+                                  type="button"
+                                  className="btn btn-secondary"
+                                  onClick={() => handleTimeChange(time)}
+                                >
+                                  {time}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </>
+                      )}
+                      {alternativeDates.length > 0 ? (
+                        <>
+                          <p>Op deze dagen is nog plek voor {formData.guests} {formData.guests === 1 ? 'gast' : 'gasten'}:</p>
+                          <div className="flex" style={{ gap: '0.5rem', flexWrap: 'wrap' }}>
+                            {alternativeDates.map(dateKey => (
+                              <button
+                                key={dateKey}
+                                type="button"
+                                className="btn btn-secondary"
+                                onClick={() => handleAlternativeDateChange(dateKey)}
+                              >
+                                {new Date(`${dateKey}T12:00:00`).toLocaleDateString('nl-NL', { weekday: 'short', day: 'numeric', month: 'short' })}
+                              </button>
+                            ))}
+                          </div>
+                        </>
+                      ) : (
+                        <p>Er is de komende dagen geen plek meer voor {formData.guests} {formData.guests === 1 ? 'gast' : 'gasten'}.</p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Waitlist when the day is fully booked */}
+                  {isFullyBooked && (
+                    waitlistJoined ? (
+                      <div className="alert alert-success" style={{ marginTop: '1rem' }}>
+                        <p>Je staat op de wachtlijst voor {selectedDate.toLocaleDateString('nl-NL')}. We nemen contact met je op zodra er een tafel vrijkomt.</p>
+                      </div>
+                    ) : !showWaitlistForm ? (
+                      <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+                        <p>Deze dag is volgeboekt voor {formData.guests} {formData.guests === 1 ? 'gast' : 'gasten'}.</p>
+                        <button
+                          type="button"
+                          className="btn btn-secondary"
+                          onClick={() => {
+                            setWaitlistWindow({ from: timeSlots[0], to: timeSlots[timeSlots.length - 1] });
+                            setShowWaitlistForm(true);
+                          }}
+                        >
+                          <ListPlus size={16} style={{ marginRight: '8px' }} />
+                          Zet me op de wachtlijst
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="card" style={{ marginTop: '1rem' }}>
+                        <h4>Wachtlijst voor {selectedDate.toLocaleDateString('nl-NL')}</h4>
+                        <div className="grid grid-2">
+                          <div className="form-group">
+                            <label className="form-label">Vanaf</label>
+                            <select
+                              value={waitlistWindow.from}
+                              onChange={(e) => setWaitlistWindow(prev => ({ ...prev, from: e.target.value }))}
+                              className="form-input"
+                            >
+                              {timeSlots.map(time => (
+                                <option key={time} value={time}>{time}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="form-group">
+                            <label className="form-label">Tot</label>
+                            <select
+                              value={waitlistWindow.to}
+                              onChange={(e) => setWaitlistWindow(prev => ({ ...prev, to: e.target.value }))}
+                              className="form-input"
+                            >
+                              {timeSlots.filter(time => toServiceMinutes(time) >= toServiceMinutes(waitlistWindow.from || time)).map(time => (
+                                <option key={time} value={time}>{time}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                        <div className="form-group">
+                          <label className="form-label">Volledige Naam *</label>
+                          <input
+                            type="text"
+                            name="customer_name"
+                            value={formData.customer_name}
+                            onChange={handleInputChange}
+                            className="form-input"
+                            placeholder="Voer je volledige naam in"
+                          />
+                        </div>
+                        <div className="grid grid-2">
+                          <div className="form-group">
+                            <label className="form-label">E-mail</label>
+                            <input
+                              type="email"
+                              name="customer_email"
+                              value={formData.customer_email}
+                              onChange={handleInputChange}
+                              className="form-input"
+                              placeholder="Voer je e-mail in"
+                            />
+                          </div>
+                          <div className="form-group">
+                            <label className="form-label">Telefoonnummer</label>
+                            <input
+                              type="tel"
+                              name="customer_phone"
+                              value={formData.customer_phone}
+                              onChange={handleInputChange}
+                              className="form-input"
+                              placeholder="Voer je telefoonnummer in"
+                            />
+                          </div>
+                        </div>
+                        <div className="flex" style={{ gap: '1rem' }}>
+                          <button
+                            type="button"
+                            className="btn btn-primary"
+                            onClick={handleJoinWaitlist}
+                            disabled={joiningWaitlist}
+                          >
+                            {joiningWaitlist ? 'Aanmelden...' : 'Aanmelden voor wachtlijst'}
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-secondary"
+                            onClick={() => setShowWaitlistForm(false)}
+                          >
+                            Annuleren
+                          </button>
+                        </div>
+                      </div>
+                    )
+                  )}
                 </div>
               )}
               
@@ -523,7 +1047,7 @@ const CustomerReservation: React.FC = () => {
                   type="button"
                   className="btn btn-primary"
                   onClick={() => setCurrentStep('details')}
-                  disabled={!selectedDate || !selectedTime}
+                  disabled={!selectedDate || !selectedTime || !timeSlots.includes(selectedTime) || !!getBookingWindowError(selectedDate, selectedTime)}
                 >
                   Volgende →
                 </button>
@@ -547,10 +1071,26 @@ const CustomerReservation: React.FC = () => {
                     </div>
                   ) : assignedTable ? (
                     <div className="alert alert-success">
-                      <p><strong>✅ Tafel toegewezen:</strong> {assignedTable.name} ({assignedTable.seats} plaatsen)</p>
-                      <p className="text-muted">Deze tafel is perfect geschikt voor {formData.guests} {formData.guests === 1 ? 'gast' : 'gasten'}.</p>
+                      <p><strong>✅ {assignedTables.length > 1 ? 'Tafels samengevoegd' : 'Tafel toegewezen'}:</strong> {assignedTable.name} ({assignedTable.seats} plaatsen)</p>
+                      {assignedArea && <p><strong>Ruimte:</strong> {assignedArea.name}</p>}
+                      {isOutsidePreferredArea ? (
+                        <p className="text-muted">Je voorkeursruimte was vol, daarom hebben we een tafel in een andere ruimte voor je gekozen.</p>
+                      ) : (
+                        <p className="text-muted">Deze tafel is perfect geschikt voor {formData.guests} {formData.guests === 1 ? 'gast' : 'gasten'}.</p>
+                      )}
                     </div>
                   ) : null}
+                  {formData.table_id && requiresApproval(getRulesForDate(formatDateKey(selectedDate)), formatDateKey(selectedDate), formData.guests) && (
+                    <div className="alert alert-info" style={{ marginTop: '1rem' }}>
+                      <p><strong>Let op:</strong> deze reservering wordt eerst door het restaurant beoordeeld. Je tafel wordt vastgehouden en je ontvangt bericht zodra je aanvraag is goedgekeurd of afgewezen.</p>
+                    </div>
+                  )}
+                  {formData.table_id && depositAmount > 0 && (
+                    <div className="alert alert-info" style={{ marginTop: '1rem' }}>
+                      <p><strong>Aanbetaling:</strong> voor deze reservering vragen we een aanbetaling van €{depositAmount.toFixed(2)} ({formData.guests} × €{(depositAmount / formData.guests).toFixed(2)}).</p>
+                      <p className="text-muted">De reservering is pas definitief als de betaling gelukt is. Het bedrag wordt verrekend met de rekening.</p>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -594,6 +1134,37 @@ const CustomerReservation: React.FC = () => {
                 />
               </div>
 
+              {/* Allergies and Diets */}
+              <div className="form-group">
+                <label className="form-label">Allergieën (Optioneel)</label>
+                <div className="allergen-grid">
+                  {ALLERGEN_OPTIONS.map(allergen => (
+                    <label key={allergen} className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={formData.allergens.includes(allergen)}
+                        onChange={(e) => handleDietaryChange('allergens', allergen, e.target.checked)}
+                      />
+                      <span>{allergen}</span>
+                    </label>
+                  ))}
+                </div>
+                <label className="form-label" style={{ marginTop: '1rem' }}>Dieet (Optioneel)</label>
+                <div className="flex" style={{ gap: '1rem', flexWrap: 'wrap' }}>
+                  {DIET_OPTIONS.map(diet => (
+                    <label key={diet.key} className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={formData.diets.includes(diet.key)}
+                        onChange={(e) => handleDietaryChange('diets', diet.key, e.target.checked)}
+                      />
+                      <span>{diet.label}</span>
+                    </label>
+                  ))}
+                </div>
+                <small className="text-muted">De keuken ziet dit bij elke bestelling aan je tafel.</small>
+              </div>
+
               {/* Special Requests */}
               <div className="form-group">
                 <label className="form-label">
@@ -605,18 +1176,37 @@ const CustomerReservation: React.FC = () => {
                   value={formData.notes}
                   onChange={handleInputChange}
                   className="form-textarea"
-                  placeholder="Eventuele dieetwensen, vieringen of andere verzoeken..."
+                  placeholder="Eventuele vieringen of andere verzoeken..."
                   rows={3}
                 />
               </div>
 
+              {/* Cancellation Policy */}
+              {mustAcceptPolicy && (
+                <div className="form-group">
+                  <label className="form-label">Annuleringsbeleid</label>
+                  <p className="text-muted">{describeCancellationPolicy(cancellationPolicy)}</p>
+                  <label className="flex" style={{ alignItems: 'center', gap: '0.5rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={policyAccepted}
+                      onChange={(e) => setPolicyAccepted(e.target.checked)}
+                      required
+                    />
+                    Ik ga akkoord met het annuleringsbeleid *
+                  </label>
+                </div>
+              )}
+
               <div className="text-center mt-8">
                 <button
                   type="submit"
                   className="btn btn-primary btn-lg"
-                  disabled={submitting || !formData.table_id || !formData.customer_name}
+                  disabled={submitting || !formData.table_id || !formData.customer_name || (mustAcceptPolicy && !policyAccepted)}
                 >
-                  {submitting ? 'Reservering aanmaken...' : 'Reservering Maken'}
+                  {submitting
+                    ? (depositAmount > 0 ? 'Betaling verwerken...' : 'Reservering aanmaken...')
+                    : (depositAmount > 0 ? `Betalen en Reserveren (€${depositAmount.toFixed(2)})` : 'Reservering Maken')}
                 </button>
               </div>
             </>
@@ -14,6 +14,8 @@ import {
 } from 'lucide-react';
 import { formatDistanceToNow, parseISO } from 'date-fns';
 import { nl } from 'date-fns/locale';
+import { DEFAULT_TIME_ZONE, getRestaurantToday } from '../lib/restaurantTime';
+import { hasDietaryDeclaration, describeDietaryDeclaration, getConflictingAllergens } from '../lib/dietary';
 
 interface OrderItem {
   menu_item_id: string;
@@ -38,7 +40,9 @@ interface Order {
   reservations: {
     customer_name: string;
     guests: number;
-  };
+    allergens?: string[] | null;
+    diets?: string[] | null;
+  } | null;
 }
 
 interface MenuItem {
@@ -48,6 +52,7 @@ interface MenuItem {
   price: number;
   category: string;
   prep_time_minutes?: number;
+  allergens?: string[] | null;
 }
 
 interface Table {
@@ -89,7 +94,7 @@ const KitchenOrders: React.FC = () => {
         .select(`
           *,
           tables (name),
-          reservations (customer_name, guests)
+          reservations (customer_name, guests, allergens, diets)
         `)
         .order('created_at', { ascending: true });
 
@@ -109,8 +114,16 @@ const KitchenOrders: React.FC = () => {
 
       if (tablesError) throw tablesError;
 
-      // Fetch today's reservations
-      const today = new Date().toISOString().split('T')[0];
+      // Fetch today's reservations, "today" on the restaurant's clock
+      const { data: timeZoneSetting, error: timeZoneError } = await supabase
+        .from('restaurant_settings')
+        .select('setting_value')
+        .eq('setting_key', 'timezone')
+        .maybeSingle();
+
+      if (timeZoneError) throw timeZoneError;
+
+      const today = getRestaurantToday(timeZoneSetting?.setting_value || DEFAULT_TIME_ZONE);
       const { data: reservationsData, error: reservationsError } = await supabase
         .from('reservations')
         .select('*')
@@ -408,6 +421,12 @@ const KitchenOrders: React.FC = () => {
                         <MapPin size={16} style={{ marginRight: '8px' }} />
                         Tafel: {table?.name || 'Onbekend'} ({reservation?.customer_name || 'Walk-in'} - {reservation?.guests || '?'} pers.)
                       </div>
+                      {hasDietaryDeclaration(order.reservations) && (
+                        <div className="dietary-alert">
+                          <AlertCircle size={16} style={{ marginRight: '8px' }} />
+                          {describeDietaryDeclaration(order.reservations)}
+                        </div>
+                      )}
                       <div className="order-items">
                         {order.items.map((item, index) => (
                           <div key={index} className="order-item">
@@ -415,6 +434,11 @@ const KitchenOrders: React.FC = () => {
                               <span className="quantity">{item.quantity}x</span>
                               <span className="item-name">{item.name}</span>
                               {item.notes && <span className="item-notes">({item.notes})</span>}
+                              {getConflictingAllergens(getMenuItem(item.menu_item_id)?.allergens, order.reservations).length > 0 && (
+                                <span className="allergen-conflict">
+                                  ⚠ bevat {getConflictingAllergens(getMenuItem(item.menu_item_id)?.allergens, order.reservations).join(', ')}
+                                </span>
+                              )}
                             </div>
                             <span className="item-price">€{(item.price * item.quantity).toFixed(2)}</span>
                           </div>
@@ -0,0 +1,432 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Calendar, CalendarPlus, CalendarX, Clock, Users, CheckCircle, XCircle } from 'lucide-react';
+import axios from 'axios';
+import { supabase } from '../lib/supabase';
+import {
+  BookingRules,
+  DEFAULT_BOOKING_RULES,
+  parseBookingRules,
+  getPartyBookingRules,
+  generateTimeSlots,
+  getBookingWindowError,
+  getClosureError,
+  getClosureMessage,
+  getAttributeLabel,
+  getMinutesUntil,
+  CancellationPolicy,
+  getCancellationFee,
+  describeCancellationPolicy
+} from '../lib/availability';
+import { getRestaurantNow, getRestaurantToday } from '../lib/restaurantTime';
+import { getManageReservationPath, GUEST_MANAGEABLE_STATUSES } from '../lib/manageToken';
+import {
+  RestaurantDetails,
+  CALENDAR_INVITE_FILENAME,
+  parseRestaurantDetails,
+  buildCalendarInvite,
+  getCalendarInviteDataUrl
+} from '../lib/calendarInvite';
+import { hasDietaryDeclaration, describeDietaryDeclaration } from '../lib/dietary';
+
+interface Reservation {
+  id: string;
+  table_id: string;
+  combined_table_ids?: string[];
+  customer_name: string;
+  customer_email: string;
+  guests: number;
+  date: string;
+  time: string;
+  duration_hours?: number | null;
+  status: string;
+  calendar_sequence?: number | null;
+  preferred_area_id?: string | null;
+  allow_area_fallback?: boolean;
+  needs?: string[] | null;
+  allergens?: string[] | null;
+  diets?: string[] | null;
+  decision_message?: string | null;
+  deposit_amount?: number | null;
+  deposit_status?: string | null;
+  cancellation_policy?: CancellationPolicy | null;
+  cancellation_fee?: number | null;
+  attendance_confirmed_at?: string | null;
+  tables?: { name: string };
+}
+
+const ManageReservation: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [reservation, setReservation] = useState<Reservation | null>(null);
+  const [bookingRules, setBookingRules] = useState<BookingRules>(DEFAULT_BOOKING_RULES);
+  const [restaurant, setRestaurant] = useState<RestaurantDetails>(parseRestaurantDetails([]));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+  const [editing, setEditing] = useState(false);
+  const [editData, setEditData] = useState({ date: '', time: '', guests: 2 });
+  const [expectedDeposit, setExpectedDeposit] = useState(0);
+
+  const fetchReservation = useCallback(async () => {
+    try {
+      // The server looks the reservation up by its token, which the public key can't read
+      const [reservationResult, settingsResult] = await Promise.all([
+        axios.get(`/api/manage/${token}`).catch(error => {
+          if (error.response?.status === 404) return { data: null };
+          throw error;
+        }),
+        supabase
+          .from('restaurant_settings')
+          .select('setting_key, setting_value')
+      ]);
+
+      if (settingsResult.error) throw settingsResult.error;
+
+      // Closures from today on the restaurant's clock
+      const { timeZone } = parseBookingRules(settingsResult.data || []);
+      const closuresResult = await supabase
+        .from('closures')
+        .select('*')
+        .gte('date', getRestaurantToday(timeZone));
+
+      if (closuresResult.error) throw closuresResult.error;
+
+      setReservation(reservationResult.data);
+      setBookingRules(parseBookingRules(settingsResult.data || [], closuresResult.data || []));
+      setRestaurant(parseRestaurantDetails(settingsResult.data || []));
+      if (reservationResult.data) {
+        setEditData({
+          date: reservationResult.data.date,
+          time: reservationResult.data.time.slice(0, 5),
+          guests: reservationResult.data.guests
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching reservation:', error);
+      setError('Fout bij het laden van je reservering');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchReservation();
+  }, [fetchReservation]);
+
+  // Rules with the reservation duration for the new party size and date
+  const partyRules = useMemo(() => {
+    return getPartyBookingRules(bookingRules, editData.date, editData.guests);
+  }, [bookingRules, editData.date, editData.guests]);
+
+  const timeSlots = useMemo(() => {
+    return editData.date ? generateTimeSlots(partyRules, editData.date) : [];
+  }, [partyRules, editData.date]);
+
+  // Only upcoming reservations that haven't been seated yet can be changed by the guest
+  const canManage = useMemo(() => {
+    if (!reservation || !GUEST_MANAGEABLE_STATUSES.includes(reservation.status)) return false;
+    return getMinutesUntil(getRestaurantNow(bookingRules.timeZone), reservation.date, reservation.time) > 0;
+  }, [reservation, bookingRules.timeZone]);
+
+  const handleCancel = useCallback(async () => {
+    if (!reservation) return;
+
+    // Warn about the fee when cancelling this late; the server records the fee owed
+    const fee = reservation.cancellation_policy
+      ? getCancellationFee(reservation.cancellation_policy, reservation, getRestaurantNow(bookingRules.timeZone))
+      : 0;
+    const question = fee > 0
+      ? `Volgens het annuleringsbeleid kost annuleren nu €${fee.toFixed(2)}. Weet je zeker dat je je reservering wilt annuleren?`
+      : 'Weet je zeker dat je je reservering wilt annuleren?';
+    if (!window.confirm(question)) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const { data } = await axios.patch(`/api/manage/${token}`, { status: 'cancelled' });
+
+      setReservation({ ...reservation, status: 'cancelled', cancellation_fee: data.cancellation_fee, calendar_sequence: data.calendar_sequence });
+      setEditing(false);
+      setMessage(data.cancellation_fee > 0
+        ? `Je reservering is geannuleerd. Volgens het annuleringsbeleid zijn de kosten €${Number(data.cancellation_fee).toFixed(2)}.`
+        : 'Je reservering is geannuleerd.');
+    } catch (error) {
+      console.error('Error cancelling reservation:', error);
+      setError('Fout bij het annuleren van je reservering');
+    } finally {
+      setSaving(false);
+    }
+  }, [reservation, token, bookingRules.timeZone]);
+
+  // Let the restaurant know the guest is coming, e.g. from the link in a reminder
+  const handleConfirmAttendance = useCallback(async () => {
+    if (!reservation) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const { data } = await axios.patch(`/api/manage/${token}`, { attendance_confirmed: true });
+
+      setReservation({ ...reservation, attendance_confirmed_at: data.attendance_confirmed_at });
+      setMessage('Bedankt! We hebben je komst genoteerd.');
+    } catch (error) {
+      console.error('Error confirming attendance:', error);
+      setError('Fout bij het bevestigen van je komst');
+    } finally {
+      setSaving(false);
+    }
+  }, [reservation, token]);
+
+  // Answer links in the reminders: ?antwoord=ja confirms, ?antwoord=nee asks to cancel
+  const answer = searchParams.get('antwoord');
+  useEffect(() => {
+    if (!answer || !canManage) return;
+
+    setSearchParams({}, { replace: true });
+    if (answer === 'ja') handleConfirmAttendance();
+    if (answer === 'nee') handleCancel();
+  }, [answer, canManage, setSearchParams, handleConfirmAttendance, handleCancel]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reservation) return;
+
+    setSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      // Quick checks for a clear message; the server checks them again and picks the tables under
+      // its date lock, so two guests can't move onto the same table
+      const bookingWindowError = getBookingWindowError(partyRules, editData.date, editData.time, getRestaurantNow(partyRules.timeZone));
+      if (bookingWindowError) {
+        setError(bookingWindowError);
+        return;
+      }
+      const closureError = getClosureError(partyRules, editData.date, editData.time);
+      if (closureError) {
+        setError(closureError);
+        return;
+      }
+
+      const { data } = await axios.patch(`/api/manage/${token}`, {
+        date: editData.date,
+        time: editData.time,
+        guests: editData.guests,
+        expected_deposit: expectedDeposit
+      });
+
+      // The change needs a deposit, which the guest pays on the payment provider's page
+      if (data.checkout_url) {
+        window.location.href = data.checkout_url;
+        return;
+      }
+
+      setExpectedDeposit(0);
+      setReservation(data);
+      setEditing(false);
+      setMessage(data.status === 'pending' && reservation.status !== 'pending'
+        ? 'Je wijziging is ontvangen. Voor dit aantal gasten of deze datum bevestigen we de reservering eerst; je hoort zo snel mogelijk van ons.'
+        : 'Je reservering is gewijzigd.');
+    } catch (error: any) {
+      console.error('Error updating reservation:', error);
+      setError(error.response?.data?.error || 'Fout bij het wijzigen van je reservering');
+
+      // The server asks a deposit the guest hasn't seen yet: saving again pays it
+      if (error.response?.data?.code === 'DEPOSIT_REQUIRED') {
+        setExpectedDeposit(error.response.data.deposit_amount);
+      }
+      // A failed deposit payment released the reservation
+      if (error.response?.data?.code === 'PAYMENT_FAILED') {
+        setEditing(false);
+        await fetchReservation();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Reservering laden...</div>;
+  }
+
+  if (!reservation) {
+    return (
+      <div className="container-narrow">
+        <div className="card text-center">
+          <XCircle size={64} className="text-danger" style={{ margin: '0 auto 1.5rem' }} />
+          <h2 className="card-title">Reservering niet gevonden</h2>
+          <p className="text-muted">Deze link is ongeldig of verlopen. Neem contact met ons op als je hulp nodig hebt.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container-narrow">
+      <div className="card">
+        <div className="card-header">
+          <h2 className="card-title">Mijn Reservering</h2>
+          <p className="text-muted">Reservering op naam van {reservation.customer_name}</p>
+        </div>
+
+        {error && <div className="error">{error}</div>}
+        {message && (
+          <div className="alert alert-success">
+            <CheckCircle size={18} style={{ marginRight: '8px', verticalAlign: 'middle' }} />
+            {message}
+          </div>
+        )}
+
+        <div className="alert alert-info" style={{ margin: '1rem 0' }}>
+          <p><strong>Datum:</strong> {new Date(`${reservation.date}T12:00:00`).toLocaleDateString('nl-NL')}</p>
+          <p><strong>Tijd:</strong> {reservation.time.slice(0, 5)}</p>
+          <p><strong>Gasten:</strong> {reservation.guests}</p>
+          {reservation.tables?.name && <p><strong>Tafel:</strong> {reservation.tables.name}</p>}
+          {reservation.needs && reservation.needs.length > 0 && (
+            <p><strong>Wensen:</strong> {reservation.needs.map(need => getAttributeLabel(need, true)).join(', ')}</p>
+          )}
+          {hasDietaryDeclaration(reservation) && (
+            <p><strong>Allergieën & dieet:</strong> {describeDietaryDeclaration(reservation)}</p>
+          )}
+          <p><strong>Status:</strong> {reservation.status === 'cancelled' ? 'Geannuleerd' :
+            reservation.status === 'confirmed' ? 'Bevestigd' :
+            reservation.status === 'pending' ? 'Wacht op goedkeuring' :
+            reservation.status === 'awaiting_payment' ? 'Wacht op betaling' :
+            reservation.status === 'declined' ? 'Afgewezen' :
+            reservation.status === 'expired' ? 'Verlopen' : reservation.status}</p>
+          {!!reservation.deposit_amount && (
+            <p><strong>Aanbetaling:</strong> €{Number(reservation.deposit_amount).toFixed(2)}
+              {reservation.deposit_status === 'paid' ? ' (betaald)' :
+               reservation.deposit_status === 'refunded' ? ' (terugbetaald)' :
+               reservation.deposit_status === 'deducted' ? ' (verrekend met de rekening)' : ' (nog niet betaald)'}</p>
+          )}
+          {reservation.attendance_confirmed_at && reservation.status === 'confirmed' && (
+            <p><strong>Je komst is bevestigd.</strong></p>
+          )}
+          {reservation.cancellation_policy && (
+            <p><strong>Annuleringsbeleid:</strong> {describeCancellationPolicy(reservation.cancellation_policy)}</p>
+          )}
+          {reservation.decision_message && <p><strong>Bericht van het restaurant:</strong> {reservation.decision_message}</p>}
+        </div>
+
+        {(reservation.status === 'confirmed' || reservation.status === 'cancelled') && (
+          <p>
+            <a
+              className="btn btn-secondary"
+              href={getCalendarInviteDataUrl(buildCalendarInvite(reservation, {
+                method: reservation.status === 'cancelled' ? 'CANCEL' : 'PUBLISH',
+                restaurant,
+                timeZone: bookingRules.timeZone,
+                manageUrl: `${window.location.origin}${getManageReservationPath(token || '')}`
+              }))}
+              download={CALENDAR_INVITE_FILENAME}
+            >
+              {reservation.status === 'cancelled' ? (
+                <><CalendarX size={16} style={{ marginRight: '8px' }} />Verwijder uit je agenda</>
+              ) : (
+                <><CalendarPlus size={16} style={{ marginRight: '8px' }} />Zet in je agenda</>
+              )}
+            </a>
+          </p>
+        )}
+
+        {reservation.status === 'pending' && (
+          <p className="text-muted">Het restaurant beoordeelt je aanvraag nog. Je tafel wordt zolang voor je vastgehouden.</p>
+        )}
+
+        {!canManage && !['cancelled', 'declined', 'expired'].includes(reservation.status) && (
+          <p className="text-muted">Deze reservering kan niet meer online worden gewijzigd. Neem contact met ons op.</p>
+        )}
+
+        {canManage && !editing && (
+          <div className="flex" style={{ gap: '1rem', justifyContent: 'flex-end' }}>
+            <button type="button" className="btn btn-secondary" onClick={handleCancel} disabled={saving}>
+              Annuleren
+            </button>
+            <button type="button" className="btn btn-primary" onClick={() => setEditing(true)} disabled={saving}>
+              Wijzigen
+            </button>
+            {reservation.status === 'confirmed' && !reservation.attendance_confirmed_at && (
+              <button type="button" className="btn btn-primary" onClick={handleConfirmAttendance} disabled={saving}>
+                Ik kom
+              </button>
+            )}
+          </div>
+        )}
+
+        {canManage && editing && (
+          <form onSubmit={handleSave}>
+            <div className="form-group">
+              <label className="form-label">
+                <Calendar size={20} style={{ marginRight: '8px', verticalAlign: 'middle' }} />
+                Datum
+              </label>
+              <input
+                type="date"
+                className="form-input"
+                value={editData.date}
+                min={getRestaurantToday(bookingRules.timeZone)}
+                onChange={(e) => setEditData({ ...editData, date: e.target.value, time: '' })}
+                required
+              />
+              {getClosureMessage(bookingRules, editData.date) && (
+                <small className="text-muted">{getClosureMessage(bookingRules, editData.date)}</small>
+              )}
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">
+                <Clock size={20} style={{ marginRight: '8px', verticalAlign: 'middle' }} />
+                Tijd
+              </label>
+              {timeSlots.length === 0 ? (
+                <p className="text-muted">We zijn gesloten op deze dag. Kies een andere datum.</p>
+              ) : (
+                <select
+                  className="form-input"
+                  value={editData.time}
+                  onChange={(e) => setEditData({ ...editData, time: e.target.value })}
+                  required
+                >
+                  <option value="">Kies een tijd</option>
+                  {timeSlots.map(slot => (
+                    <option key={slot} value={slot}>{slot}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">
+                <Users size={20} style={{ marginRight: '8px', verticalAlign: 'middle' }} />
+                Aantal Gasten
+              </label>
+              <select
+                className="form-input"
+                value={editData.guests}
+                onChange={(e) => setEditData({ ...editData, guests: parseInt(e.target.value) })}
+              >
+                {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(guests => (
+                  <option key={guests} value={guests}>{guests}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex" style={{ gap: '1rem', justifyContent: 'flex-end' }}>
+              <button type="button" className="btn btn-secondary" onClick={() => setEditing(false)} disabled={saving}>
+                Terug
+              </button>
+              <button type="submit" className="btn btn-primary" disabled={saving || !editData.time}>
+                {saving ? 'Opslaan...' : expectedDeposit > 0 ? `Opslaan en €${expectedDeposit.toFixed(2)} betalen` : 'Wijziging Opslaan'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ManageReservation;
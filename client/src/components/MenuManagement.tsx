@@ -5,6 +5,7 @@ import {
   Eye, EyeOff, Search, Filter 
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { ALLERGEN_OPTIONS } from '../lib/dietary';
 
 interface MenuItem {
   id: string;
@@ -52,12 +53,6 @@ const MenuManagement: React.FC = () => {
   const [categoryFilter, setCategoryFilter] = useState('all');
   const [availabilityFilter, setAvailabilityFilter] = useState('all');
   
-  // Allergen options
-  const allergenOptions = [
-    'gluten', 'melk', 'eieren', 'noten', 'sesam', 'soja', 'vis', 'schaaldieren', 
-    'sulfieten', 'mosterd', 'selderij', 'lupine'
-  ];
-  
   // Category options
   const categories = [
     'Voorgerechten', 'Hoofdgerechten', 'Desserts', 'Dranken', 'Specials'
@@ -553,7 +548,7 @@ const MenuManagement: React.FC = () => {
                   <div className="form-group">
                     <label className="form-label">Allergenen</label>
                     <div className="allergen-grid">
-                      {allergenOptions.map(allergen => (
+                      {ALLERGEN_OPTIONS.map(allergen => (
                         <label key={allergen} className="checkbox-label">
                           <input
                             type="checkbox"
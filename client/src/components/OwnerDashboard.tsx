@@ -16,10 +16,39 @@ import {
   Utensils,
   Building,
   ChefHat,
+  ListPlus,
+  Send,
+  Shuffle,
+  Lock,
+  Check,
+  CreditCard,
   X
 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
-import { supabase } from '../lib/supabase';
+import axios from 'axios';
+import { supabase, subscribeToReservations } from '../lib/supabase';
+import {
+  BookingRules,
+  DEFAULT_BOOKING_RULES,
+  ACTIVE_RESERVATION_STATUSES,
+  parseBookingRules,
+  getPartyBookingRules,
+  generateTimeSlots,
+  findTableAssignment,
+  isPacingLimitReached,
+  getOpenTables,
+  getAttributeLabel,
+  optimizeTableAssignments,
+  TablePlan,
+  AvailabilityArea,
+  getPacingOverview,
+  getReservationTableIds,
+  addMinutesToTime,
+  toServiceMinutes
+} from '../lib/availability';
+import { DEFAULT_TIME_ZONE, getRestaurantToday, formatRestaurantDateTime } from '../lib/restaurantTime';
+import { GuestProfile, findGuestProfile, isFlaggedGuest, normalizePhone, normalizeEmail } from '../lib/guestProfiles';
+import { hasDietaryDeclaration, describeDietaryDeclaration, getConflictingAllergens } from '../lib/dietary';
 import MenuManagement from './MenuManagement';
 import KitchenOrders from './KitchenOrders';
 import TableManagement from './TableManagement';
@@ -31,22 +60,55 @@ interface Table {
   seats: number;
   position_x: number;
   position_y: number;
+  area_id?: string | null;
 }
 
 interface Reservation {
   id: string;
   table_id: string;
+  combined_table_ids?: string[] | null;
   customer_name: string;
   customer_email: string;
   customer_phone: string;
   guests: number;
   date: string;
   time: string;
+  duration_hours?: number | null;
+  buffer_minutes?: number | null;
   status: string;
   notes: string;
+  preferred_area_id?: string | null;
+  allow_area_fallback?: boolean;
+  needs?: string[] | null;
+  allergens?: string[] | null;
+  diets?: string[] | null;
+  table_locked?: boolean | null;
+  hold_expires_at?: string | null;
+  decision_message?: string | null;
+  deposit_amount?: number | null;
+  deposit_status?: 'open' | 'paid' | 'failed' | 'refunded' | 'deducted' | null;
+  payment_reference?: string | null;
+  cancellation_fee?: number | null;
+  reminders_sent?: number[] | null;
+  attendance_confirmed_at?: string | null;
   tables: Table;
 }
 
+interface WaitlistEntry {
+  id: string;
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string;
+  guests: number;
+  date: string;
+  time_from: string;
+  time_to: string;
+  notes: string;
+  status: 'waiting' | 'offered' | 'cancelled';
+  offered_reservation_id: string | null;
+  created_at: string;
+}
+
 interface Order {
   id: string;
   reservation_id: string;
@@ -63,6 +125,19 @@ interface Order {
   created_at: string;
 }
 
+// SMS or email sent to the guest of a reservation, logged by the server
+interface GuestMessage {
+  id: string;
+  reservation_id: string;
+  channel: 'sms' | 'email';
+  recipient: string;
+  subject: string | null;
+  message: string;
+  event: string | null;
+  status: 'sent' | 'failed';
+  sent_at: string;
+}
+
 
 const OwnerDashboard: React.FC = () => {
   const navigate = useNavigate();
@@ -82,8 +157,22 @@ const OwnerDashboard: React.FC = () => {
   const [tables, setTables] = useState<Table[]>([]);
   const [reservations, setReservations] = useState<Reservation[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
+  const [guestMessages, setGuestMessages] = useState<GuestMessage[]>([]);
   const [menuItems, setMenuItems] = useState<any[]>([]);
-  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [bookingRules, setBookingRules] = useState<BookingRules>(DEFAULT_BOOKING_RULES);
+  const [areas, setAreas] = useState<AvailabilityArea[]>([]);
+  const [waitlistNotice, setWaitlistNotice] = useState<string>('');
+  const [offeringWaitlistId, setOfferingWaitlistId] = useState<string | null>(null);
+  const [tablePlan, setTablePlan] = useState<TablePlan<Reservation> | null>(null);
+  const [tablePlanNotice, setTablePlanNotice] = useState<string>('');
+  const [applyingTablePlan, setApplyingTablePlan] = useState(false);
+  const [pendingRequests, setPendingRequests] = useState<Reservation[]>([]);
+  const [decisionMessages, setDecisionMessages] = useState<{[key: string]: string}>({});
+  const [decidingRequestId, setDecidingRequestId] = useState<string | null>(null);
+  const [handlingDeposit, setHandlingDeposit] = useState(false);
+  const [guestProfiles, setGuestProfiles] = useState<GuestProfile[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string>(getRestaurantToday(DEFAULT_TIME_ZONE));
   const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
   const [selectedTable, setSelectedTable] = useState<Table | null>(null);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
@@ -115,8 +204,8 @@ const OwnerDashboard: React.FC = () => {
 
   // Order creation is now handled in the Phone Orders tab
 
-  const fetchData = useCallback(async () => {
-    setLoading(true);
+  const fetchData = useCallback(async (showLoading: boolean = true) => {
+    if (showLoading) setLoading(true);
     try {
       // Fetch tables
       const { data: tablesData, error: tablesError } = await supabase
@@ -163,10 +252,72 @@ const OwnerDashboard: React.FC = () => {
       
       if (menuItemsError) throw menuItemsError;
       
+      // Fetch waitlist for selected date
+      const { data: waitlistData, error: waitlistError } = await supabase
+        .from('waitlist')
+        .select('*')
+        .eq('date', selectedDate)
+        .in('status', ['waiting', 'offered'])
+        .order('created_at', { ascending: true });
+      
+      if (waitlistError) throw waitlistError;
+      
+      // Fetch reservation requests waiting for approval, on any date
+      const { data: pendingData, error: pendingError } = await supabase
+        .from('reservations')
+        .select(`
+          *,
+          tables (
+            id,
+            name,
+            seats
+          )
+        `)
+        .eq('status', 'pending')
+        .order('date', { ascending: true })
+        .order('time', { ascending: true });
+      
+      if (pendingError) throw pendingError;
+      
+      // Fetch guests with past no-shows or flags, to warn when they book again
+      const { data: guestProfilesData, error: guestProfilesError } = await supabase
+        .from('guest_profiles')
+        .select('*')
+        .or('no_show_count.gt.0,require_deposit.eq.true,blocked.eq.true');
+      
+      if (guestProfilesError) throw guestProfilesError;
+      
+      // Fetch booking rules for matching waitlisted guests to free tables
+      const { data: settingsData, error: settingsError } = await supabase
+        .from('restaurant_settings')
+        .select('setting_key, setting_value');
+      
+      if (settingsError) throw settingsError;
+      
+      // Fetch closures and special hours for the selected date
+      const { data: closuresData, error: closuresError } = await supabase
+        .from('closures')
+        .select('*')
+        .eq('date', selectedDate);
+      
+      if (closuresError) throw closuresError;
+      
+      // Fetch seating areas
+      const { data: areasData, error: areasError } = await supabase
+        .from('areas')
+        .select('*');
+      
+      if (areasError) throw areasError;
+      
       setTables(tablesData);
       setReservations(reservationsData);
       setOrders(ordersData);
       setMenuItems(menuItemsData);
+      setWaitlist(waitlistData || []);
+      setPendingRequests(pendingData || []);
+      setGuestProfiles(guestProfilesData || []);
+      setBookingRules(parseBookingRules(settingsData || [], closuresData || []));
+      setAreas(areasData || []);
     } catch (error) {
       console.error('Error fetching data:', error);
       setError('Error loading data');
@@ -179,6 +330,33 @@ const OwnerDashboard: React.FC = () => {
     fetchData();
   }, [fetchData]);
 
+  // Start on today in the restaurant's own timezone once the settings are loaded
+  useEffect(() => {
+    setSelectedDate(getRestaurantToday(bookingRules.timeZone));
+  }, [bookingRules.timeZone]);
+
+  // A table plan only applies to the day it was made for
+  useEffect(() => {
+    setTablePlan(null);
+    setTablePlanNotice('');
+  }, [selectedDate]);
+
+  // Live reservation updates, a cancellation may free a table for the waitlist
+  useEffect(() => {
+    const channel = subscribeToReservations((payload) => {
+      const freedTable = payload.eventType === 'DELETE' ||
+        (payload.new?.status === 'cancelled' && payload.old?.status !== 'cancelled');
+      if (freedTable) {
+        setWaitlistNotice('Er is een reservering geannuleerd. Controleer de wachtlijst voor een vrije plek.');
+      }
+      fetchData(false);
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchData]);
+
   const fetchOrders = async (reservationId: string) => {
     try {
       const { data, error } = await supabase
@@ -194,8 +372,54 @@ const OwnerDashboard: React.FC = () => {
     }
   };
 
+  // What the guest of a reservation has been told, newest first
+  const fetchGuestMessages = async (reservationId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('reservation_messages')
+        .select('*')
+        .eq('reservation_id', reservationId)
+        .order('sent_at', { ascending: false });
+      
+      if (error) throw error;
+      setGuestMessages(data || []);
+    } catch (error) {
+      console.error('Error fetching guest messages:', error);
+    }
+  };
+
+  // Reservation on a table, including reservations where the table is joined to another one
+  const getReservationForTable = (tableId: string): Reservation | undefined => {
+    return reservations.find(r => getReservationTableIds(r).includes(tableId));
+  };
+
+  const getAreaName = (areaId: string | null | undefined): string => {
+    return areas.find(area => area.id === areaId)?.name || '';
+  };
+
+  // Area of the reservation's main table
+  const getReservationAreaId = (reservation: Reservation): string | null | undefined => {
+    return tables.find(t => t.id === reservation.table_id)?.area_id;
+  };
+
+  // "Tafel 1 + Tafel 2" for joined tables
+  const getReservationTableNames = (reservation: Reservation): string => {
+    return getReservationTableIds(reservation)
+      .map(tableId => tables.find(t => t.id === tableId)?.name)
+      .filter(Boolean)
+      .join(' + ') || reservation.tables?.name || '';
+  };
+
+  // "19:00 - 21:00" using the duration stored on the reservation (or the rules for older ones)
+  const getReservationTimeRange = (reservation: Reservation): string => {
+    const start = reservation.time.slice(0, 5);
+    const durationHours = reservation.duration_hours ||
+      getPartyBookingRules(bookingRules, reservation.date, reservation.guests).durationHours;
+    return `${start} - ${addMinutesToTime(start, durationHours * 60)}`;
+  };
+
   const getTableStatus = (tableId: string): string => {
-    const reservation = reservations.find(r => r.table_id === tableId);
+    const reservation = getReservationForTable(tableId);
     if (!reservation) return 'available';
     return reservation.status;
   };
@@ -205,14 +429,65 @@ const OwnerDashboard: React.FC = () => {
     return menuItem ? menuItem.name : '';
   };
 
+  // Allergens in a dish that the guest of the order's reservation declared
+  const getOrderItemConflicts = (order: Order, menuItemId: string): string[] => {
+    const reservation = reservations.find(r => r.id === order.reservation_id);
+    const menuItem = menuItems.find(item => item.id === menuItemId);
+    return getConflictingAllergens(menuItem?.allergens, reservation);
+  };
+
   const getTableTotalAmount = (tableId: string): number => {
     const tableOrders = orders.filter(order => order.table_id === tableId);
     return tableOrders.reduce((total, order) => total + order.total_amount, 0);
   };
 
+  // "2× niet verschenen • aanbetaling verplicht" for guests staff should look out for
+  const getGuestWarning = (reservation: Reservation): string => {
+    const profile = findGuestProfile(guestProfiles, reservation);
+    if (!isFlaggedGuest(profile)) return '';
+
+    return [
+      profile!.no_show_count > 0 ? `${profile!.no_show_count}× niet verschenen` : '',
+      profile!.require_deposit ? 'aanbetaling verplicht' : '',
+      profile!.blocked ? 'online geblokkeerd' : ''
+    ].filter(Boolean).join(' • ');
+  };
+
+  const getMessageEventLabel = (event: string | null): string => {
+    switch (event) {
+      case 'booking_confirmed': return 'Bevestiging';
+      case 'request_received': return 'Aanvraag ontvangen';
+      case 'request_approved': return 'Aanvraag goedgekeurd';
+      case 'request_declined': return 'Aanvraag afgewezen';
+      case 'request_expired': return 'Aanvraag verlopen';
+      case 'deposit_refunded': return 'Aanbetaling teruggestort';
+      case 'reminder': return 'Herinnering';
+      case 'waitlist_offer': return 'Wachtlijst';
+      case 'cancelled': return 'Geannuleerd';
+      case 'no_show': return 'Niet verschenen';
+      case 'confirmed': return 'Bevestigd';
+      case 'time_changed': return 'Tijd gewijzigd';
+      case 'table_changed': return 'Tafel gewijzigd';
+      default: return 'Bericht';
+    }
+  };
+
+  const getDepositStatusLabel = (status: Reservation['deposit_status']): string => {
+    switch (status) {
+      case 'open': return 'Nog niet betaald';
+      case 'paid': return 'Betaald';
+      case 'failed': return 'Mislukt';
+      case 'refunded': return 'Terugbetaald';
+      case 'deducted': return 'Verrekend';
+      default: return '';
+    }
+  };
+
   const getTableColor = (status: string): string => {
     switch (status) {
       case 'available': return '#28a745';
+      case 'awaiting_payment': return '#fd7e14';
+      case 'pending': return '#fd7e14';
       case 'confirmed': return '#ffc107';
       case 'arrived': return '#dc3545';
       case 'in_progress': return '#dc3545';
@@ -223,42 +498,215 @@ const OwnerDashboard: React.FC = () => {
 
   const handleTableClick = async (table: Table) => {
     setSelectedTable(table);
-    const reservation = reservations.find(r => r.table_id === table.id);
+    const reservation = getReservationForTable(table.id);
     if (reservation) {
       setSelectedReservation(reservation);
-      await fetchOrders(reservation.id);
+      await Promise.all([fetchOrders(reservation.id), fetchGuestMessages(reservation.id)]);
     } else {
       setSelectedReservation(null);
       setOrders([]);
+      setGuestMessages([]);
     }
   };
 
-  const handleStatusChange = async (reservationId: string, newStatus: string) => {
+  // First slot within the guest's preferred window that has a table (or joined tables) free
+  const findWaitlistSlot = (entry: WaitlistEntry): string | null => {
+    const activeReservations = reservations.filter(r => ACTIVE_RESERVATION_STATUSES.includes(r.status));
+    const from = toServiceMinutes(entry.time_from);
+    const to = toServiceMinutes(entry.time_to);
+
+    const partyRules = getPartyBookingRules(bookingRules, entry.date, entry.guests);
+
+    // A slot also counts when re-planning the unseated reservations makes room (the server applies the moves)
+    const slot = generateTimeSlots(partyRules, entry.date)
+      .filter(time => toServiceMinutes(time) >= from && toServiceMinutes(time) <= to)
+      .find(time => !isPacingLimitReached(partyRules, entry.date, activeReservations, time, entry.guests) &&
+        (findTableAssignment(getOpenTables(tables, areas, entry.date), activeReservations, time, entry.guests, partyRules) ||
+          optimizeTableAssignments(tables, areas, activeReservations, partyRules, entry.date, {
+            table_id: '', time, guests: entry.guests, allow_area_fallback: true
+          })?.bookingTableIds));
+    return slot || null;
+  };
+
+  const handleOfferWaitlist = async (entry: WaitlistEntry, time: string) => {
+    setOfferingWaitlistId(entry.id);
+    setError('');
+    try {
+      await axios.post(`/api/waitlist/${entry.id}/offer`, { time });
+      setWaitlistNotice(`${entry.customer_name} is ingeboekt om ${time} en heeft een bericht ontvangen.`);
+      await fetchData(false);
+    } catch (error: any) {
+      console.error('Error offering waitlist slot:', error);
+      setError(error.response?.data?.error || 'Fout bij het aanbieden van de plek');
+    } finally {
+      setOfferingWaitlistId(null);
+    }
+  };
+
+  // Approve or decline a reservation request; the server confirms or releases the table and tells the guest
+  const handleRequestDecision = async (reservation: Reservation, decision: 'approve' | 'decline') => {
+    setDecidingRequestId(reservation.id);
+    setError('');
+    try {
+      await axios.post(`/api/reservations/${reservation.id}/decision`, {
+        decision,
+        message: decisionMessages[reservation.id] || ''
+      });
+      setDecisionMessages(prev => ({ ...prev, [reservation.id]: '' }));
+      await fetchData(false);
+    } catch (error: any) {
+      console.error('Error deciding reservation request:', error);
+      setError(error.response?.data?.error || 'Fout bij het afhandelen van de aanvraag');
+      await fetchData(false);
+    } finally {
+      setDecidingRequestId(null);
+    }
+  };
+
+  // Ask a deposit from this guest on every online booking, or block them from booking online
+  const handleGuestFlagChange = async (reservation: Reservation, flag: 'require_deposit' | 'blocked', value: boolean) => {
+    try {
+      // Look the guest up in all profiles, the dashboard only loads the flagged ones
+      const phone = normalizePhone(reservation.customer_phone);
+      const email = normalizeEmail(reservation.customer_email);
+      const [byPhone, byEmail] = await Promise.all([
+        supabase.from('guest_profiles').select('*').eq('phone', phone || ''),
+        supabase.from('guest_profiles').select('*').eq('email', email || '')
+      ]);
+
+      if (byPhone.error) throw byPhone.error;
+      if (byEmail.error) throw byEmail.error;
+
+      const profile = findGuestProfile([...(byPhone.data || []), ...(byEmail.data || [])], reservation);
+      if (profile) {
+        const { error } = await supabase
+          .from('guest_profiles')
+          .update({ [flag]: value })
+          .eq('id', profile.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('guest_profiles')
+          .insert([{ phone, email, [flag]: value }]);
+
+        if (error) throw error;
+      }
+
+      await fetchData(false);
+    } catch (error) {
+      console.error('Error updating guest profile:', error);
+      setError('Fout bij het bijwerken van de gast');
+    }
+  };
+
+  // Refund the deposit to the guest or deduct it from the final bill
+  const handleDepositAction = async (reservation: Reservation, action: 'refund' | 'deduct') => {
+    if (action === 'refund' && !window.confirm(`€${Number(reservation.deposit_amount).toFixed(2)} terugbetalen aan ${reservation.customer_name}?`)) {
+      return;
+    }
+
+    setHandlingDeposit(true);
+    setError('');
+    try {
+      const { data } = await axios.post(`/api/reservations/${reservation.id}/deposit`, { action });
+      setSelectedReservation(prev => prev?.id === reservation.id ? { ...prev, deposit_status: data.deposit_status } : prev);
+      await fetchData(false);
+    } catch (error: any) {
+      console.error('Error handling deposit:', error);
+      setError(error.response?.data?.error || 'Fout bij het verwerken van de aanbetaling');
+    } finally {
+      setHandlingDeposit(false);
+    }
+  };
+
+  const handleRemoveWaitlist = async (entryId: string) => {
     try {
       const { error } = await supabase
-        .from('reservations')
-        .update({ status: newStatus })
-        .eq('id', reservationId);
+        .from('waitlist')
+        .update({ status: 'cancelled' })
+        .eq('id', entryId);
       
       if (error) throw error;
+      await fetchData(false);
+    } catch (error) {
+      console.error('Error removing waitlist entry:', error);
+    }
+  };
+
+  // Through the server, which records the cancellation or no-show fee from the guest's policy
+  const handleStatusChange = async (reservationId: string, newStatus: string) => {
+    try {
+      const { data } = await axios.patch(`/api/reservations/${reservationId}`, { status: newStatus });
       
       await fetchData();
       if (selectedReservation?.id === reservationId) {
-        setSelectedReservation(prev => prev ? { ...prev, status: newStatus } : null);
+        setSelectedReservation(prev => prev ? { ...prev, status: newStatus, cancellation_fee: data.cancellation_fee } : null);
+        await fetchGuestMessages(reservationId);
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating status:', error);
+      setError(error.response?.data?.error || 'Fout bij het bijwerken van de status');
     }
   };
 
-  const handleCreateReservation = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Preview a tighter table plan for the day's reservations that haven't been seated yet
+  const handlePreviewTablePlan = () => {
+    const plan = optimizeTableAssignments(tables, areas, reservations, bookingRules, selectedDate);
+    setTablePlan(plan && plan.moves.length > 0 ? plan : null);
+    setTablePlanNotice(!plan
+      ? 'Er is geen indeling gevonden waarin alle reserveringen passen.'
+      : plan.moves.length === 0 ? 'De tafelindeling kan niet verder worden verbeterd.' : '');
+  };
+
+  // Through the server, which re-checks the moves together and tells guests about their new table
+  // when that is switched on
+  const handleApplyTablePlan = async () => {
+    if (!tablePlan) return;
+
+    setApplyingTablePlan(true);
+    setError('');
+    try {
+      await axios.post('/api/table-plan', {
+        date: selectedDate,
+        moves: tablePlan.moves.map(move => ({ reservation_id: move.reservation.id, table_ids: move.tableIds }))
+      });
+
+      setTablePlanNotice(`${tablePlan.moves.length} ${tablePlan.moves.length === 1 ? 'reservering' : 'reserveringen'} verplaatst.`);
+      setTablePlan(null);
+      await fetchData(false);
+    } catch (error: any) {
+      console.error('Error applying table plan:', error);
+      setError(error.response?.data?.error || 'Fout bij het toepassen van de tafelindeling');
+      setTablePlan(null);
+    } finally {
+      setApplyingTablePlan(false);
+    }
+  };
+
+  // Locked reservations keep their table when the table plan is optimised
+  const handleToggleTableLock = async (reservation: Reservation) => {
     try {
       const { error } = await supabase
         .from('reservations')
-        .insert([newReservation]);
-      
+        .update({ table_locked: !reservation.table_locked })
+        .eq('id', reservation.id);
+
       if (error) throw error;
+
+      setSelectedReservation(prev => prev?.id === reservation.id ? { ...prev, table_locked: !reservation.table_locked } : prev);
+      await fetchData(false);
+    } catch (error) {
+      console.error('Error updating table lock:', error);
+    }
+  };
+
+  // Through the server, which checks the table under its date lock and gives the reservation a manage link
+  const handleCreateReservation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      await axios.post('/api/staff/reservations', newReservation);
       
       setShowReservationModal(false);
       setNewReservation({
@@ -272,8 +720,9 @@ const OwnerDashboard: React.FC = () => {
         notes: ''
       });
       await fetchData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error creating reservation:', error);
+      setError(error.response?.data?.error || 'Fout bij het aanmaken van de reservering');
     }
   };
 
@@ -294,6 +743,7 @@ const OwnerDashboard: React.FC = () => {
       if (selectedReservation?.id === reservationId) {
         setSelectedReservation(null);
         setOrders([]);
+        setGuestMessages([]);
       }
     } catch (error) {
       console.error('Error deleting reservation:', error);
@@ -304,10 +754,16 @@ const OwnerDashboard: React.FC = () => {
     const matchesStatus = statusFilter === 'all' || reservation.status === statusFilter;
     const matchesSearch = searchTerm === '' || 
       reservation.customer_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      reservation.tables.name.toLowerCase().includes(searchTerm.toLowerCase());
+      getReservationTableNames(reservation).toLowerCase().includes(searchTerm.toLowerCase());
     return matchesStatus && matchesSearch;
   });
 
+  // How full each kitchen pacing interval is on the selected date
+  const pacingOverview = getPacingOverview(bookingRules, selectedDate, reservations);
+
+  // Next waitlisted guest (first come, first served) for whom a table is free
+  const nextWaitlistEntry = waitlist.find(entry => entry.status === 'waiting' && findWaitlistSlot(entry));
+
   if (loading) {
     return (
       <div className="container">
@@ -393,6 +849,18 @@ const OwnerDashboard: React.FC = () => {
         {/* Tab Content */}
         {currentTab === 'dashboard' && (
           <>
+            {/* Closures and special hours for the selected date */}
+            {bookingRules.closures.map(closure => (
+              <div key={closure.id || closure.type} className="alert alert-warning">
+                <strong>
+                  {closure.type === 'closed' ? 'Gesloten' :
+                   closure.type === 'partial' ? `Gesloten van ${closure.start_time?.slice(0, 5)} tot ${closure.end_time?.slice(0, 5)}` :
+                   `Afwijkende openingstijden: ${closure.start_time?.slice(0, 5)} - ${closure.end_time?.slice(0, 5)}`}
+                </strong>
+                {closure.message && ` — ${closure.message}`}
+              </div>
+            ))}
+
             {/* Filters */}
             <div className="grid grid-2 mb-20">
               <div className="form-group">
@@ -419,12 +887,16 @@ const OwnerDashboard: React.FC = () => {
                   className="form-input"
                 >
                   <option value="all">Alle Statussen</option>
+                  <option value="awaiting_payment">Wacht op betaling</option>
                   <option value="pending">In behandeling</option>
                   <option value="confirmed">Bevestigd</option>
                   <option value="arrived">Aangekomen</option>
                   <option value="in_progress">Bezig</option>
                   <option value="completed">Voltooid</option>
                   <option value="cancelled">Geannuleerd</option>
+                  <option value="no_show">Niet verschenen</option>
+                  <option value="declined">Afgewezen</option>
+                  <option value="expired">Verlopen</option>
                 </select>
               </div>
             </div>
@@ -437,7 +909,8 @@ const OwnerDashboard: React.FC = () => {
               {tables.map(table => {
                 const status = getTableStatus(table.id);
                 const color = getTableColor(status);
-                const reservation = reservations.find(r => r.table_id === table.id);
+                const reservation = getReservationForTable(table.id);
+                const joinedTableIds = reservation ? getReservationTableIds(reservation) : [];
                 const tableOrders = orders.filter(o => o.table_id === table.id);
                 const hasOrders = tableOrders.length > 0;
                 
@@ -445,6 +918,7 @@ const OwnerDashboard: React.FC = () => {
                   <div
                     key={table.id}
                     className="table-item"
+                    title={reservation ? `${reservation.customer_name}: ${getReservationTimeRange(reservation)}` : undefined}
                     style={{
                       backgroundColor: color,
                       color: 'white',
@@ -463,7 +937,7 @@ const OwnerDashboard: React.FC = () => {
                       fontWeight: 'bold',
                       boxShadow: '0 2px 4px rgba(0,0,0,0.2)',
                       transition: 'transform 0.2s ease',
-                      border: hasOrders ? '3px solid #f59e0b' : 'none'
+                      border: hasOrders ? '3px solid #f59e0b' : joinedTableIds.length > 1 ? '3px dashed white' : 'none'
                     }}
                     onClick={() => handleTableClick(table)}
                     onMouseEnter={(e) => {
@@ -481,8 +955,14 @@ const OwnerDashboard: React.FC = () => {
                        status === 'arrived' ? 'aangekomen' :
                        status === 'in_progress' ? 'bezig' :
                        status === 'completed' ? 'voltooid' :
-                       status === 'cancelled' ? 'geannuleerd' : status}
+                       status === 'cancelled' ? 'geannuleerd' :
+                       status === 'no_show' ? 'niet verschenen' : status}
                     </div>
+                    {joinedTableIds.length > 1 && (
+                      <div style={{ fontSize: '8px' }} title={getReservationTableNames(reservation)}>
+                        🔗 {getReservationTableNames(reservation)}
+                      </div>
+                    )}
                     {hasOrders && (
                       <div style={{ 
                         fontSize: '8px', 
@@ -521,14 +1001,81 @@ const OwnerDashboard: React.FC = () => {
               <div>
                 <div className="reservation-info">
                   <h4>{selectedReservation.customer_name}</h4>
+                  {getGuestWarning(selectedReservation) && (
+                    <div className="alert alert-warning" style={{ margin: '0.5rem 0' }}>
+                      <strong>⚠ Let op:</strong> {getGuestWarning(selectedReservation)}
+                    </div>
+                  )}
+                  {selectedReservation.needs && selectedReservation.needs.length > 0 && (
+                    <div className="alert alert-warning" style={{ margin: '0.5rem 0' }}>
+                      <strong>♿ Let op:</strong> {selectedReservation.needs.map(need => getAttributeLabel(need, true)).join(', ')}
+                    </div>
+                  )}
+                  {hasDietaryDeclaration(selectedReservation) && (
+                    <div className="alert alert-warning" style={{ margin: '0.5rem 0' }}>
+                      <strong>🥜 Let op:</strong> {describeDietaryDeclaration(selectedReservation)}
+                    </div>
+                  )}
                   <p><Users size={16} style={{ marginRight: '8px' }} />{selectedReservation.guests} gasten</p>
+                  {getReservationTableIds(selectedReservation).length > 1 && (
+                    <p><Building size={16} style={{ marginRight: '8px' }} />Samengevoegd: {getReservationTableNames(selectedReservation)}</p>
+                  )}
+                  {getAreaName(getReservationAreaId(selectedReservation)) && (
+                    <p><Building size={16} style={{ marginRight: '8px' }} />Ruimte: {getAreaName(getReservationAreaId(selectedReservation))}</p>
+                  )}
+                  {selectedReservation.preferred_area_id && (
+                    <p className="text-muted">
+                      Voorkeur: {getAreaName(selectedReservation.preferred_area_id)}
+                      {getReservationAreaId(selectedReservation) !== selectedReservation.preferred_area_id && ' (andere ruimte, met toestemming gast)'}
+                    </p>
+                  )}
                   <p><Calendar size={16} style={{ marginRight: '8px' }} />{format(parseISO(selectedReservation.date), 'MMM d, yyyy')}</p>
-                  <p><Clock size={16} style={{ marginRight: '8px' }} />{selectedReservation.time}</p>
+                  <p><Clock size={16} style={{ marginRight: '8px' }} />{getReservationTimeRange(selectedReservation)}</p>
+                  {selectedReservation.attendance_confirmed_at ? (
+                    <p className="text-success">
+                      ✓ Komst bevestigd door de gast op {formatRestaurantDateTime(selectedReservation.attendance_confirmed_at, bookingRules.timeZone)}
+                    </p>
+                  ) : selectedReservation.reminders_sent && selectedReservation.reminders_sent.length > 0 && selectedReservation.status === 'confirmed' ? (
+                    <p className="text-muted">Herinnering verstuurd, nog geen reactie van de gast</p>
+                  ) : null}
                   <p><Phone size={16} style={{ marginRight: '8px' }} />{selectedReservation.customer_phone || 'N/A'}</p>
                   <p><Mail size={16} style={{ marginRight: '8px' }} />{selectedReservation.customer_email || 'N/A'}</p>
                   {selectedReservation.notes && (
                     <p><MessageSquare size={16} style={{ marginRight: '8px' }} />{selectedReservation.notes}</p>
                   )}
+                  {!!selectedReservation.cancellation_fee && (
+                    <p className="text-danger">
+                      {selectedReservation.status === 'no_show' ? 'No-showkosten' : 'Annuleringskosten'}: €{Number(selectedReservation.cancellation_fee).toFixed(2)}
+                    </p>
+                  )}
+                  {!!selectedReservation.deposit_amount && (
+                    <div className="flex justify-between align-center" style={{ gap: '0.5rem', flexWrap: 'wrap' }}>
+                      <p>
+                        <CreditCard size={16} style={{ marginRight: '8px' }} />
+                        Aanbetaling €{Number(selectedReservation.deposit_amount).toFixed(2)} • {getDepositStatusLabel(selectedReservation.deposit_status)}
+                      </p>
+                      {selectedReservation.deposit_status === 'paid' && (
+                        <div className="flex" style={{ gap: '0.5rem' }}>
+                          <button
+                            className="btn btn-secondary btn-sm"
+                            onClick={() => handleDepositAction(selectedReservation, 'deduct')}
+                            disabled={handlingDeposit}
+                            title="Trek de aanbetaling af van de eindrekening"
+                          >
+                            Verrekenen
+                          </button>
+                          <button
+                            className="btn btn-secondary btn-sm"
+                            onClick={() => handleDepositAction(selectedReservation, 'refund')}
+                            disabled={handlingDeposit}
+                            title="Stort de aanbetaling terug naar de gast"
+                          >
+                            Terugbetalen
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div className="status-controls">
@@ -538,24 +1085,85 @@ const OwnerDashboard: React.FC = () => {
                     onChange={(e) => handleStatusChange(selectedReservation.id, e.target.value)}
                     className="form-input"
                   >
+                    <option value="awaiting_payment">Wacht op betaling</option>
                     <option value="pending">In behandeling</option>
                     <option value="confirmed">Bevestigd</option>
                     <option value="arrived">Aangekomen</option>
                     <option value="in_progress">Bezig</option>
                     <option value="completed">Voltooid</option>
                     <option value="cancelled">Geannuleerd</option>
+                    <option value="no_show">Niet verschenen</option>
+                    <option value="declined">Afgewezen</option>
+                    <option value="expired">Verlopen</option>
                   </select>
+                  <label className="flex" style={{ alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={!!selectedReservation.table_locked}
+                      onChange={() => handleToggleTableLock(selectedReservation)}
+                    />
+                    <Lock size={16} />
+                    Tafel vastzetten (niet verplaatsen bij optimaliseren)
+                  </label>
+                  {(selectedReservation.customer_phone || selectedReservation.customer_email) && (
+                    <>
+                      <label className="flex" style={{ alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem' }}>
+                        <input
+                          type="checkbox"
+                          checked={!!findGuestProfile(guestProfiles, selectedReservation)?.require_deposit}
+                          onChange={(e) => handleGuestFlagChange(selectedReservation, 'require_deposit', e.target.checked)}
+                        />
+                        Gast moet altijd een aanbetaling doen
+                      </label>
+                      <label className="flex" style={{ alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem' }}>
+                        <input
+                          type="checkbox"
+                          checked={!!findGuestProfile(guestProfiles, selectedReservation)?.blocked}
+                          onChange={(e) => handleGuestFlagChange(selectedReservation, 'blocked', e.target.checked)}
+                        />
+                        Online reserveren blokkeren voor deze gast
+                      </label>
+                    </>
+                  )}
                 </div>
 
+                {guestMessages.length > 0 && (
+                  <div className="guest-messages">
+                    <h4>Berichten aan gast</h4>
+                    {guestMessages.map(guestMessage => (
+                      <div key={guestMessage.id} className="guest-message">
+                        <div className="flex justify-between align-center" style={{ gap: '0.5rem' }}>
+                          <strong>{getMessageEventLabel(guestMessage.event)}</strong>
+                          <span className="text-muted" style={{ fontSize: '0.85rem' }}>
+                            {guestMessage.channel === 'sms' ? <Phone size={12} /> : <Mail size={12} />} {formatRestaurantDateTime(guestMessage.sent_at, bookingRules.timeZone)}
+                          </span>
+                        </div>
+                        {guestMessage.status === 'failed' && (
+                          <p className="text-danger">Versturen naar {guestMessage.recipient} is mislukt</p>
+                        )}
+                        <p style={{ whiteSpace: 'pre-line' }}>{guestMessage.message}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="orders-section">
                   <div className="flex justify-between align-center">
                     <div>
                       <h4>Bestellingen</h4>
-                      {selectedTable && (
+                      {selectedTable && (selectedReservation.deposit_status === 'deducted' ? (
+                        <>
+                          <p className="text-muted">Bestellingen: €{getTableTotalAmount(selectedTable.id).toFixed(2)}</p>
+                          <p className="text-muted">Aanbetaling verrekend: -€{Number(selectedReservation.deposit_amount).toFixed(2)}</p>
+                          <p className="total-amount">
+                            <strong>Totaal te betalen: €{Math.max(0, getTableTotalAmount(selectedTable.id) - Number(selectedReservation.deposit_amount)).toFixed(2)}</strong>
+                          </p>
+                        </>
+                      ) : (
                         <p className="total-amount">
                           <strong>Totaal te betalen: €{getTableTotalAmount(selectedTable.id).toFixed(2)}</strong>
                         </p>
-                      )}
+                      ))}
                     </div>
                     <button 
                       className="btn btn-primary btn-sm"
@@ -590,6 +1198,9 @@ const OwnerDashboard: React.FC = () => {
                           <div>
                             <span>{order.items.length} item{order.items.length > 1 ? 's' : ''}</span>
                             <span className="text-muted"> | Status: {order.status}</span>
+                            {order.items.some(item => getOrderItemConflicts(order, item.menu_item_id).length > 0) && (
+                              <span className="allergen-conflict">⚠ allergeen</span>
+                            )}
                             <span className={`status-badge status-${order.status}`}>
                               {order.status === 'pending' ? 'in behandeling' :
                                order.status === 'preparing' ? 'wordt bereid' :
@@ -682,6 +1293,163 @@ const OwnerDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Kitchen Pacing */}
+        {pacingOverview.length > 0 && (
+          <div className="card mt-20">
+            <h3 className="card-title">
+              <ChefHat size={20} style={{ marginRight: '8px' }} />
+              Keukenplanning
+            </h3>
+            <div className="reservations-list">
+              {pacingOverview.filter(interval => interval.bookings > 0 || interval.limits.maxCovers || interval.limits.maxBookings).map(interval => {
+                const coverRatio = interval.limits.maxCovers ? interval.covers / interval.limits.maxCovers : 0;
+                const bookingRatio = interval.limits.maxBookings ? interval.bookings / interval.limits.maxBookings : 0;
+                const fullness = Math.min(1, Math.max(coverRatio, bookingRatio));
+
+                return (
+                  <div key={interval.start} className="reservation-item">
+                    <div className="reservation-main" style={{ flex: 1 }}>
+                      <h4>{interval.start} - {interval.end}</h4>
+                      <p>
+                        {interval.covers}{interval.limits.maxCovers ? ` / ${interval.limits.maxCovers}` : ''} couverts •{' '}
+                        {interval.bookings}{interval.limits.maxBookings ? ` / ${interval.limits.maxBookings}` : ''} aankomsten
+                      </p>
+                      {!!(interval.limits.maxCovers || interval.limits.maxBookings) && (
+                        <div style={{ background: '#e5e7eb', borderRadius: '4px', height: '8px', marginTop: '4px' }}>
+                          <div
+                            style={{
+                              width: `${fullness * 100}%`,
+                              height: '100%',
+                              borderRadius: '4px',
+                              background: fullness >= 1 ? '#dc3545' : fullness >= 0.75 ? '#ffc107' : '#28a745'
+                            }}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    {fullness >= 1 && (
+                      <div className="reservation-status">
+                        <span className="status-badge status-cancelled">Vol</span>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Reservation Requests */}
+        <div className="card mt-20">
+          <h3 className="card-title">
+            <Clock size={20} style={{ marginRight: '8px', verticalAlign: 'middle' }} />
+            Aanvragen ({pendingRequests.length})
+          </h3>
+          {pendingRequests.length === 0 ? (
+            <p className="text-muted">Geen reserveringen die op goedkeuring wachten</p>
+          ) : (
+            <div className="reservations-list">
+              {pendingRequests.map(request => (
+                <div key={request.id} className="reservation-item">
+                  <div className="reservation-main">
+                    <h4>
+                      {request.customer_name}
+                      {getGuestWarning(request) && (
+                        <span
+                          className="status-badge status-cancelled"
+                          style={{ marginLeft: '8px', fontSize: '0.75rem' }}
+                        >
+                          ⚠ {getGuestWarning(request)}
+                        </span>
+                      )}
+                    </h4>
+                    <p>{format(parseISO(request.date), 'MMM d, yyyy')} • {getReservationTimeRange(request)} • {request.guests} gasten</p>
+                    <p>{getReservationTableNames(request)}{request.notes ? ` • ${request.notes}` : ''}</p>
+                    {!!request.deposit_amount && (
+                      <p className="text-muted">Aanbetaling €{Number(request.deposit_amount).toFixed(2)} • {getDepositStatusLabel(request.deposit_status)}</p>
+                    )}
+                    {request.hold_expires_at && (
+                      <p className="text-muted">
+                        Tafel vastgehouden tot {formatRestaurantDateTime(request.hold_expires_at, bookingRules.timeZone)}
+                      </p>
+                    )}
+                    <input
+                      type="text"
+                      value={decisionMessages[request.id] || ''}
+                      onChange={(e) => setDecisionMessages(prev => ({ ...prev, [request.id]: e.target.value }))}
+                      className="form-input"
+                      placeholder="Bericht aan de gast (optioneel)"
+                    />
+                  </div>
+                  <div className="reservation-actions">
+                    <button
+                      className="btn btn-primary btn-sm"
+                      onClick={() => handleRequestDecision(request, 'approve')}
+                      disabled={decidingRequestId === request.id}
+                      title="Bevestig de reservering en stuur de gast een bericht"
+                    >
+                      <Check size={16} style={{ marginRight: '4px' }} />
+                      Goedkeuren
+                    </button>
+                    <button
+                      className="btn btn-secondary btn-sm"
+                      onClick={() => handleRequestDecision(request, 'decline')}
+                      disabled={decidingRequestId === request.id}
+                      title="Wijs de aanvraag af en geef de tafel vrij"
+                    >
+                      <X size={16} style={{ marginRight: '4px' }} />
+                      Afwijzen
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Table Plan */}
+        <div className="card mt-20">
+          <div className="flex justify-between align-center">
+            <h3 className="card-title">
+              <Shuffle size={20} style={{ marginRight: '8px' }} />
+              Tafelindeling
+            </h3>
+            <button className="btn btn-secondary btn-sm" onClick={handlePreviewTablePlan}>
+              Optimaliseren
+            </button>
+          </div>
+          <p className="text-muted">
+            Verdeel de reserveringen die nog niet zijn aangekomen opnieuw over de tafels, zodat er zoveel mogelijk ruimte overblijft.
+            Vastgezette reserveringen blijven staan.
+          </p>
+          {tablePlanNotice && <div className="alert alert-info">{tablePlanNotice}</div>}
+          {tablePlan && (
+            <>
+              <div className="reservations-list">
+                {tablePlan.moves.map(move => (
+                  <div key={move.reservation.id} className="reservation-item">
+                    <div className="reservation-main">
+                      <h4>{move.reservation.customer_name}</h4>
+                      <p>
+                        {move.reservation.time.slice(0, 5)} • {move.reservation.guests} gasten •{' '}
+                        {getReservationTableNames(move.reservation)} → {move.tableIds.map(tableId => tables.find(t => t.id === tableId)?.name).join(' + ')}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex" style={{ gap: '1rem', justifyContent: 'flex-end', marginTop: '1rem' }}>
+                <button className="btn btn-secondary" onClick={() => setTablePlan(null)} disabled={applyingTablePlan}>
+                  Annuleren
+                </button>
+                <button className="btn btn-primary" onClick={handleApplyTablePlan} disabled={applyingTablePlan}>
+                  {applyingTablePlan ? 'Toepassen...' : 'Toepassen'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
         {/* Reservations List */}
         <div className="card mt-20">
           <h3 className="card-title">Alle Reserveringen ({filteredReservations.length})</h3>
@@ -689,18 +1457,62 @@ const OwnerDashboard: React.FC = () => {
             {filteredReservations.map(reservation => (
               <div key={reservation.id} className="reservation-item">
                 <div className="reservation-main">
-                  <h4>{reservation.customer_name}</h4>
-                  <p>{reservation.tables.name} • {reservation.guests} gasten</p>
-                  <p>{format(parseISO(reservation.date), 'MMM d, yyyy')} om {reservation.time}</p>
+                  <h4>
+                    {reservation.customer_name}
+                    {reservation.needs && reservation.needs.length > 0 && (
+                      <span
+                        className="status-badge status-arrived"
+                        style={{ marginLeft: '8px', fontSize: '0.75rem' }}
+                      >
+                        ♿ {reservation.needs.map(need => getAttributeLabel(need, true)).join(', ')}
+                      </span>
+                    )}
+                    {hasDietaryDeclaration(reservation) && (
+                      <span
+                        className="status-badge status-arrived"
+                        style={{ marginLeft: '8px', fontSize: '0.75rem' }}
+                      >
+                        🥜 {describeDietaryDeclaration(reservation)}
+                      </span>
+                    )}
+                    {getGuestWarning(reservation) && (
+                      <span
+                        className="status-badge status-cancelled"
+                        style={{ marginLeft: '8px', fontSize: '0.75rem' }}
+                      >
+                        ⚠ {getGuestWarning(reservation)}
+                      </span>
+                    )}
+                    {reservation.attendance_confirmed_at && reservation.status === 'confirmed' && (
+                      <span
+                        className="status-badge status-completed"
+                        style={{ marginLeft: '8px', fontSize: '0.75rem' }}
+                      >
+                        ✓ Komst bevestigd
+                      </span>
+                    )}
+                  </h4>
+                  <p>{getReservationTableNames(reservation)} • {reservation.guests} gasten</p>
+                  <p>{format(parseISO(reservation.date), 'MMM d, yyyy')} • {getReservationTimeRange(reservation)}</p>
+                  {!!reservation.cancellation_fee && (
+                    <p className="text-muted">{reservation.status === 'no_show' ? 'No-showkosten' : 'Annuleringskosten'} €{Number(reservation.cancellation_fee).toFixed(2)}</p>
+                  )}
+                  {!!reservation.deposit_amount && (
+                    <p className="text-muted">Aanbetaling €{Number(reservation.deposit_amount).toFixed(2)} • {getDepositStatusLabel(reservation.deposit_status)}</p>
+                  )}
                 </div>
                 <div className="reservation-status">
                   <span className={`status-badge status-${reservation.status}`}>
-                    {reservation.status === 'pending' ? 'In behandeling' :
+                    {reservation.status === 'awaiting_payment' ? 'Wacht op betaling' :
+                     reservation.status === 'pending' ? 'In behandeling' :
                      reservation.status === 'confirmed' ? 'Bevestigd' :
                      reservation.status === 'arrived' ? 'Aangekomen' :
                      reservation.status === 'in_progress' ? 'Bezig' :
                      reservation.status === 'completed' ? 'Voltooid' :
-                     reservation.status === 'cancelled' ? 'Geannuleerd' : reservation.status}
+                     reservation.status === 'cancelled' ? 'Geannuleerd' :
+                     reservation.status === 'no_show' ? 'Niet verschenen' :
+                     reservation.status === 'declined' ? 'Afgewezen' :
+                     reservation.status === 'expired' ? 'Verlopen' : reservation.status}
                   </span>
                 </div>
                 <div className="reservation-actions">
@@ -710,6 +1522,7 @@ const OwnerDashboard: React.FC = () => {
                       setSelectedTable(tables.find(t => t.id === reservation.table_id) || null);
                       setSelectedReservation(reservation);
                       fetchOrders(reservation.id);
+                      fetchGuestMessages(reservation.id);
                     }}
                   >
                     <Eye size={16} />
@@ -719,6 +1532,68 @@ const OwnerDashboard: React.FC = () => {
             ))}
           </div>
         </div>
+
+        {/* Waitlist */}
+        <div className="card mt-20">
+          <h3 className="card-title">
+            <ListPlus size={20} style={{ marginRight: '8px', verticalAlign: 'middle' }} />
+            Wachtlijst ({waitlist.filter(entry => entry.status === 'waiting').length})
+          </h3>
+          {waitlistNotice && (
+            <div className="alert alert-info" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <span>{waitlistNotice}</span>
+              <button className="btn btn-icon" onClick={() => setWaitlistNotice('')}>
+                <X size={16} />
+              </button>
+            </div>
+          )}
+          {waitlist.length === 0 ? (
+            <p className="text-muted">Niemand op de wachtlijst voor deze dag</p>
+          ) : (
+            <div className="reservations-list">
+              {waitlist.map(entry => {
+                const freeSlot = entry.status === 'waiting' ? findWaitlistSlot(entry) : null;
+
+                return (
+                  <div key={entry.id} className="reservation-item">
+                    <div className="reservation-main">
+                      <h4>{entry.customer_name}</h4>
+                      <p>{entry.guests} gasten • tussen {entry.time_from.slice(0, 5)} en {entry.time_to.slice(0, 5)}</p>
+                      <p className="text-muted">{entry.customer_phone || entry.customer_email}</p>
+                    </div>
+                    <div className="reservation-status">
+                      <span className={`status-badge status-${entry.status === 'offered' ? 'confirmed' : 'pending'}`}>
+                        {entry.status === 'offered' ? 'Aangeboden' : freeSlot ? `Plek vrij om ${freeSlot}` : 'Wachtend'}
+                      </span>
+                    </div>
+                    <div className="reservation-actions">
+                      {freeSlot && (
+                        <button
+                          className={`btn btn-sm ${nextWaitlistEntry?.id === entry.id ? 'btn-primary' : 'btn-secondary'}`}
+                          onClick={() => handleOfferWaitlist(entry, freeSlot)}
+                          disabled={offeringWaitlistId === entry.id}
+                          title={`Bied ${freeSlot} aan en stuur de gast een bericht`}
+                        >
+                          <Send size={16} style={{ marginRight: '4px' }} />
+                          {offeringWaitlistId === entry.id ? 'Aanbieden...' : 'Aanbieden'}
+                        </button>
+                      )}
+                      {entry.status === 'waiting' && (
+                        <button
+                          className="btn btn-secondary btn-sm"
+                          onClick={() => handleRemoveWaitlist(entry.id)}
+                          title="Van de wachtlijst halen"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
           </>
         )}
 
@@ -756,6 +1631,7 @@ const OwnerDashboard: React.FC = () => {
           <div className="modal-overlay">
             <div className="modal">
               <h3>Nieuwe Reservering Maken</h3>
+              {error && <div className="error">{error}</div>}
             <form onSubmit={handleCreateReservation}>
               <div className="form-group">
                 <label className="form-label">Tafel</label>
@@ -887,7 +1763,7 @@ const OwnerDashboard: React.FC = () => {
                     <h4>Bestelling Info</h4>
                     <p><strong>Status:</strong> {selectedOrder.status}</p>
                     <p><strong>Totaal:</strong> €{selectedOrder.total_amount.toFixed(2)}</p>
-                    <p><strong>Datum:</strong> {new Date(selectedOrder.created_at).toLocaleString('nl-NL')}</p>
+                    <p><strong>Datum:</strong> {formatRestaurantDateTime(selectedOrder.created_at, bookingRules.timeZone)}</p>
                     {selectedOrder.notes && (
                       <p><strong>Opmerkingen:</strong> {selectedOrder.notes}</p>
                     )}
@@ -902,6 +1778,9 @@ const OwnerDashboard: React.FC = () => {
                             <span className="item-quantity">{item.quantity}x</span>
                             <span className="item-name">{getMenuItemName(item.menu_item_id) || `Item ${item.menu_item_id}`}</span>
                             {item.notes && <span className="item-notes">({item.notes})</span>}
+                            {getOrderItemConflicts(selectedOrder, item.menu_item_id).length > 0 && (
+                              <span className="allergen-conflict">⚠ bevat {getOrderItemConflicts(selectedOrder, item.menu_item_id).join(', ')}</span>
+                            )}
                           </div>
                           <span className="item-price">€{(item.price * item.quantity).toFixed(2)}</span>
                         </div>
@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { getMinutesUntil } from '../lib/availability';
+import { DEFAULT_TIME_ZONE, getRestaurantNow, getRestaurantToday } from '../lib/restaurantTime';
+import { hasDietaryDeclaration, describeDietaryDeclaration, getConflictingAllergens } from '../lib/dietary';
 import { Phone, Users, Clock, Search, Plus, Minus, Check, X, ArrowLeft, ShoppingCart } from 'lucide-react';
 
 interface Table {
@@ -19,6 +22,8 @@ interface Reservation {
   time: string;
   status: string;
   table_id: string;
+  allergens?: string[] | null;
+  diets?: string[] | null;
   created_at: string;
 }
 
@@ -53,6 +58,7 @@ const PhoneOrders: React.FC = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [pin, setPin] = useState('');
   const [pinError, setPinError] = useState<string>('');
+  const [timeZone, setTimeZone] = useState<string>(DEFAULT_TIME_ZONE);
   const [showMenu, setShowMenu] = useState(false);
 
   // PIN verification
@@ -81,8 +87,18 @@ const PhoneOrders: React.FC = () => {
       if (tablesError) throw tablesError;
       setTables(tablesData || []);
 
-      // Fetch today's reservations
-      const today = new Date().toISOString().split('T')[0];
+      // Fetch today's reservations, "today" on the restaurant's clock
+      const { data: timeZoneSetting, error: timeZoneError } = await supabase
+        .from('restaurant_settings')
+        .select('setting_value')
+        .eq('setting_key', 'timezone')
+        .maybeSingle();
+
+      if (timeZoneError) throw timeZoneError;
+
+      const restaurantTimeZone = timeZoneSetting?.setting_value || DEFAULT_TIME_ZONE;
+      setTimeZone(restaurantTimeZone);
+      const today = getRestaurantToday(restaurantTimeZone);
       const { data: reservationsData, error: reservationsError } = await supabase
         .from('reservations')
         .select('*')
@@ -117,11 +133,9 @@ const PhoneOrders: React.FC = () => {
     const reservation = reservations.find(r => r.table_id === tableId);
     if (!reservation) return 'available';
     
-    const now = new Date();
-    const reservationTime = new Date(`${reservation.date}T${reservation.time}`);
-    const endTime = new Date(reservationTime.getTime() + (2 * 60 * 60 * 1000)); // 2 hours
+    const minutesUntil = getMinutesUntil(getRestaurantNow(timeZone), reservation.date, reservation.time);
     
-    if (now >= reservationTime && now <= endTime) {
+    if (minutesUntil <= 0 && minutesUntil >= -2 * 60) { // 2 hours
       return reservation.status === 'seated' ? 'occupied' : 'reserved';
     }
     
@@ -401,6 +415,9 @@ const PhoneOrders: React.FC = () => {
               {currentReservation && (
                 <p>{currentReservation.customer_name} - {currentReservation.guests} personen</p>
               )}
+              {hasDietaryDeclaration(currentReservation) && (
+                <p className="dietary-alert">{describeDietaryDeclaration(currentReservation)}</p>
+              )}
             </div>
           </div>
 
@@ -433,7 +450,10 @@ const PhoneOrders: React.FC = () => {
             {/* Menu Items */}
             <div className="menu-items-grid">
               {filteredMenuItems.map(item => (
-                <div key={item.id} className="menu-item-card">
+                <div
+                  key={item.id}
+                  className={`menu-item-card ${getConflictingAllergens(item.allergens, currentReservation).length > 0 ? 'allergen-warning' : ''}`}
+                >
                   <div className="menu-item-info">
                     <h4>{item.name}</h4>
                     <p>{item.description}</p>
@@ -444,6 +464,11 @@ const PhoneOrders: React.FC = () => {
                           {item.allergens.join(', ')}
                         </span>
                       )}
+                      {getConflictingAllergens(item.allergens, currentReservation).length > 0 && (
+                        <span className="allergen-conflict">
+                          ⚠ bevat {getConflictingAllergens(item.allergens, currentReservation).join(', ')}
+                        </span>
+                      )}
                     </div>
                   </div>
                   <button
@@ -11,9 +11,19 @@ import {
   Tag,
   AlertTriangle,
   Plus,
-  X
+  X,
+  ChefHat,
+  Users,
+  CreditCard,
+  XCircle,
+  Bell,
+  Send,
+  Rss
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { supabase, apiUrl } from '../lib/supabase';
+import { DurationRule, PacingRules, PacingLimits, OversizeRules, ApprovalRules, DepositRules, CancellationPolicy, ReminderRules, GuestNotificationRules, ReservationChangeEvent, Closure, DEFAULT_BOOKING_RULES, formatDateKey } from '../lib/availability';
+import { DEFAULT_TIME_ZONE, isValidTimeZone, getRestaurantToday } from '../lib/restaurantTime';
+import { generateManageToken } from '../lib/manageToken';
 
 interface RestaurantSetting {
   id: string;
@@ -23,6 +33,16 @@ interface RestaurantSetting {
   description: string;
 }
 
+// Secret calendar/JSON feed of upcoming reservations for one staff member
+interface StaffFeed {
+  id: string;
+  name: string;
+  token: string;
+  area_id: string | null;
+  min_guests: number | null;
+  created_at: string;
+}
+
 interface OpeningHours {
   open: string;
   close: string;
@@ -49,10 +69,31 @@ const Settings: React.FC = () => {
   // Settings state
   const [openingHours, setOpeningHours] = useState<{[key: string]: OpeningHours}>({});
   const [defaultDuration, setDefaultDuration] = useState(2);
+  const [durationRules, setDurationRules] = useState<DurationRule[]>([]);
   const [defaultBuffer, setDefaultBuffer] = useState(15);
+  const [pacing, setPacing] = useState<PacingRules>(DEFAULT_BOOKING_RULES.pacing);
+  const [oversize, setOversize] = useState<OversizeRules>(DEFAULT_BOOKING_RULES.oversize);
+  const [approval, setApproval] = useState<ApprovalRules>(DEFAULT_BOOKING_RULES.approval);
+  const [deposit, setDeposit] = useState<DepositRules>(DEFAULT_BOOKING_RULES.deposit);
+  const [newDepositDate, setNewDepositDate] = useState('');
+  const [cancellation, setCancellation] = useState<CancellationPolicy>(DEFAULT_BOOKING_RULES.cancellation);
+  const [reminders, setReminders] = useState<ReminderRules>(DEFAULT_BOOKING_RULES.reminders);
+  const [reminderOffsetsInput, setReminderOffsetsInput] = useState(DEFAULT_BOOKING_RULES.reminders.offsetsHours.join(', '));
+  const [guestNotifications, setGuestNotifications] = useState<GuestNotificationRules>(DEFAULT_BOOKING_RULES.guestNotifications);
   const [maxAdvanceDays, setMaxAdvanceDays] = useState(30);
   const [minAdvanceHours, setMinAdvanceHours] = useState(2);
   const [restaurantName, setRestaurantName] = useState('Zaytun Restaurant');
+  const [restaurantAddress, setRestaurantAddress] = useState('');
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  
+  // Closures and special hours state
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [newClosure, setNewClosure] = useState<Closure>({ date: '', type: 'closed', start_time: '', end_time: '', message: '' });
+  
+  // Staff feeds state
+  const [staffFeeds, setStaffFeeds] = useState<StaffFeed[]>([]);
+  const [feedAreas, setFeedAreas] = useState<{ id: string; name: string }[]>([]);
+  const [newFeed, setNewFeed] = useState<{ name: string; area_id: string; min_guests: number | null }>({ name: '', area_id: '', min_guests: null });
   
   // Categories and allergens state
   const [categories, setCategories] = useState<string[]>([]);
@@ -82,8 +123,30 @@ const Settings: React.FC = () => {
           }));
         } else if (setting.setting_key === 'restaurant_name') {
           setRestaurantName(setting.setting_value);
+        } else if (setting.setting_key === 'restaurant_address') {
+          setRestaurantAddress(setting.setting_value);
+        } else if (setting.setting_key === 'timezone') {
+          setTimeZone(setting.setting_value || DEFAULT_TIME_ZONE);
         } else if (setting.setting_key === 'default_reservation_duration') {
-          setDefaultDuration(parseInt(setting.setting_value));
+          setDefaultDuration(parseFloat(setting.setting_value));
+        } else if (setting.setting_key === 'pacing_rules') {
+          setPacing({ ...DEFAULT_BOOKING_RULES.pacing, ...JSON.parse(setting.setting_value) });
+        } else if (setting.setting_key === 'reminder_rules') {
+          const reminderRules = { ...DEFAULT_BOOKING_RULES.reminders, ...JSON.parse(setting.setting_value) };
+          setReminders(reminderRules);
+          setReminderOffsetsInput(reminderRules.offsetsHours.join(', '));
+        } else if (setting.setting_key === 'guest_notification_rules') {
+          setGuestNotifications({ ...DEFAULT_BOOKING_RULES.guestNotifications, ...JSON.parse(setting.setting_value) });
+        } else if (setting.setting_key === 'cancellation_policy') {
+          setCancellation({ ...DEFAULT_BOOKING_RULES.cancellation, ...JSON.parse(setting.setting_value) });
+        } else if (setting.setting_key === 'deposit_rules') {
+          setDeposit({ ...DEFAULT_BOOKING_RULES.deposit, ...JSON.parse(setting.setting_value) });
+        } else if (setting.setting_key === 'approval_rules') {
+          setApproval({ ...DEFAULT_BOOKING_RULES.approval, ...JSON.parse(setting.setting_value) });
+        } else if (setting.setting_key === 'oversize_rules') {
+          setOversize({ ...DEFAULT_BOOKING_RULES.oversize, ...JSON.parse(setting.setting_value) });
+        } else if (setting.setting_key === 'duration_rules') {
+          setDurationRules(JSON.parse(setting.setting_value) || []);
         } else if (setting.setting_key === 'default_buffer_minutes') {
           setDefaultBuffer(parseInt(setting.setting_value));
         } else if (setting.setting_key === 'max_advance_booking_days') {
@@ -105,6 +168,12 @@ const Settings: React.FC = () => {
     setError('');
     setSuccess('');
     
+    if (!isValidTimeZone(timeZone)) {
+      setError('Onbekende tijdzone, gebruik bijvoorbeeld Europe/Amsterdam');
+      setLoading(false);
+      return;
+    }
+    
     try {
       // Save restaurant name
       await supabase
@@ -124,7 +193,17 @@ const Settings: React.FC = () => {
       
       // Save other settings
       const settingsToUpdate = [
+        { key: 'restaurant_address', value: restaurantAddress },
+        { key: 'timezone', value: timeZone },
         { key: 'default_reservation_duration', value: defaultDuration.toString() },
+        { key: 'duration_rules', value: JSON.stringify(durationRules) },
+        { key: 'pacing_rules', value: JSON.stringify(pacing) },
+        { key: 'oversize_rules', value: JSON.stringify(oversize) },
+        { key: 'approval_rules', value: JSON.stringify(approval) },
+        { key: 'deposit_rules', value: JSON.stringify(deposit) },
+        { key: 'cancellation_policy', value: JSON.stringify(cancellation) },
+        { key: 'reminder_rules', value: JSON.stringify(reminders) },
+        { key: 'guest_notification_rules', value: JSON.stringify(guestNotifications) },
         { key: 'default_buffer_minutes', value: defaultBuffer.toString() },
         { key: 'max_advance_booking_days', value: maxAdvanceDays.toString() },
         { key: 'min_advance_booking_hours', value: minAdvanceHours.toString() }
@@ -177,6 +256,162 @@ const Settings: React.FC = () => {
     }
   }, []);
 
+  // Fetch upcoming closures and special hours
+  const fetchClosures = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('closures')
+        .select('*')
+        .gte('date', formatDateKey(new Date()))
+        .order('date');
+      
+      if (error) throw error;
+      setClosures(data || []);
+    } catch (error) {
+      console.error('Error fetching closures:', error);
+      setError('Fout bij het laden van sluitingsdagen');
+    }
+  }, []);
+
+  // Add a closure or special hours for a date
+  const addClosure = async () => {
+    if (!newClosure.date) return;
+    if (newClosure.type !== 'closed' && (!newClosure.start_time || !newClosure.end_time)) {
+      setError('Vul een begin- en eindtijd in');
+      return;
+    }
+    
+    try {
+      const { error } = await supabase
+        .from('closures')
+        .insert([{
+          date: newClosure.date,
+          type: newClosure.type,
+          start_time: newClosure.type === 'closed' ? null : newClosure.start_time,
+          end_time: newClosure.type === 'closed' ? null : newClosure.end_time,
+          message: newClosure.message || null
+        }]);
+      
+      if (error) throw error;
+      
+      setNewClosure({ date: '', type: 'closed', start_time: '', end_time: '', message: '' });
+      await fetchClosures();
+      setSuccess('Sluiting toegevoegd!');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error adding closure:', error);
+      setError('Fout bij het toevoegen van sluiting');
+    }
+  };
+
+  // Remove a closure
+  const removeClosure = async (closureId: string) => {
+    try {
+      const { error } = await supabase
+        .from('closures')
+        .delete()
+        .eq('id', closureId);
+      
+      if (error) throw error;
+      
+      setClosures(prev => prev.filter(closure => closure.id !== closureId));
+      setSuccess('Sluiting verwijderd!');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error removing closure:', error);
+      setError('Fout bij het verwijderen van sluiting');
+    }
+  };
+
+  // Feeds handed out to staff, and the areas a feed can be limited to
+  const fetchStaffFeeds = useCallback(async () => {
+    try {
+      // Feeds give access to every upcoming reservation, so only signed-in staff can see or change them
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        setStaffFeeds([]);
+        setError('Log in met je personeelsaccount om agenda-feeds te beheren');
+        return;
+      }
+
+      const [feedsResult, areasResult] = await Promise.all([
+        supabase
+          .from('staff_feeds')
+          .select('*')
+          .order('created_at'),
+        supabase
+          .from('areas')
+          .select('id, name')
+          .order('name')
+      ]);
+      
+      if (feedsResult.error) throw feedsResult.error;
+      if (areasResult.error) throw areasResult.error;
+      setStaffFeeds(feedsResult.data || []);
+      setFeedAreas(areasResult.data || []);
+    } catch (error) {
+      console.error('Error fetching staff feeds:', error);
+      setError('Fout bij het laden van agenda-feeds');
+    }
+  }, []);
+
+  // New feed with its own secret token, the same kind as the guest's manage link
+  const addStaffFeed = async () => {
+    if (!newFeed.name.trim()) {
+      setError('Naam van de feed is verplicht');
+      return;
+    }
+    
+    try {
+      const { error } = await supabase
+        .from('staff_feeds')
+        .insert([{
+          name: newFeed.name.trim(),
+          token: generateManageToken(),
+          area_id: newFeed.area_id || null,
+          min_guests: newFeed.min_guests
+        }]);
+      
+      if (error) throw error;
+      
+      setNewFeed({ name: '', area_id: '', min_guests: null });
+      await fetchStaffFeeds();
+      setSuccess('Agenda-feed aangemaakt!');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error adding staff feed:', error);
+      setError('Fout bij het aanmaken van de agenda-feed');
+    }
+  };
+
+  // Revoking deletes the feed, its links stop working straight away
+  const revokeStaffFeed = async (feed: StaffFeed) => {
+    if (!window.confirm(`Weet je zeker dat je de feed "${feed.name}" wilt intrekken? De link werkt daarna niet meer.`)) {
+      return;
+    }
+    
+    try {
+      const { error } = await supabase
+        .from('staff_feeds')
+        .delete()
+        .eq('id', feed.id);
+      
+      if (error) throw error;
+      
+      setStaffFeeds(prev => prev.filter(f => f.id !== feed.id));
+      setSuccess('Agenda-feed ingetrokken!');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error revoking staff feed:', error);
+      setError('Fout bij het intrekken van de agenda-feed');
+    }
+  };
+
+  // "https://.../api/feeds/<token>.ics"
+  const getStaffFeedUrl = (feed: StaffFeed, format: 'ics' | 'json'): string => {
+    return `${apiUrl || window.location.origin}/api/feeds/${feed.token}.${format}`;
+  };
+
   // Add new category
   const addCategory = async () => {
     if (!newCategory.trim()) return;
@@ -244,7 +479,60 @@ const Settings: React.FC = () => {
   useEffect(() => {
     fetchSettings();
     fetchCategoriesAndAllergens();
-  }, [fetchSettings, fetchCategoriesAndAllergens]);
+    fetchClosures();
+    fetchStaffFeeds();
+  }, [fetchSettings, fetchCategoriesAndAllergens, fetchClosures, fetchStaffFeeds]);
+
+  const addDurationRule = () => {
+    setDurationRules(prev => [...prev, { minGuests: 1, maxGuests: null, durationHours: defaultDuration, days: [] }]);
+  };
+
+  const updateDurationRule = (index: number, changes: Partial<DurationRule>) => {
+    setDurationRules(prev => prev.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const removeDurationRule = (index: number) => {
+    setDurationRules(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const toggleDurationRuleDay = (index: number, day: string) => {
+    const days = durationRules[index].days || [];
+    updateDurationRule(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+  };
+
+  // Empty input means no limit
+  const parseLimit = (value: string): number | null => {
+    return value === '' ? null : Math.max(0, parseInt(value) || 0);
+  };
+
+  // "24, 3" becomes [24, 3]: reminders 24 and 3 hours before, largest first
+  const handleReminderOffsetsChange = (value: string) => {
+    setReminderOffsetsInput(value);
+    const offsetsHours = value.split(',')
+      .map(part => parseInt(part.trim()))
+      .filter(hours => hours > 0);
+    setReminders(prev => ({ ...prev, offsetsHours: Array.from(new Set(offsetsHours)).sort((a, b) => b - a) }));
+  };
+
+  // Add a date (e.g. New Year's Eve) on which every booking pays a deposit
+  const addDepositDate = () => {
+    if (!newDepositDate || deposit.dates.includes(newDepositDate)) return;
+    setDeposit(prev => ({ ...prev, dates: [...prev.dates, newDepositDate].sort() }));
+    setNewDepositDate('');
+  };
+
+  // Override the pacing limits for one day, or go back to the general limits
+  const updatePacingDay = (day: string, limits: PacingLimits | null) => {
+    setPacing(prev => {
+      const days = { ...(prev.days || {}) };
+      if (limits) {
+        days[day] = limits;
+      } else {
+        delete days[day];
+      }
+      return { ...prev, days };
+    });
+  };
 
   const dayNames = {
     monday: 'Maandag',
@@ -256,6 +544,14 @@ const Settings: React.FC = () => {
     sunday: 'Zondag'
   };
 
+  const guestNotificationOptions: { key: ReservationChangeEvent; label: string }[] = [
+    { key: 'cancelled', label: 'Geannuleerd' },
+    { key: 'time_changed', label: 'Datum of tijd gewijzigd' },
+    { key: 'table_changed', label: 'Andere tafel' },
+    { key: 'confirmed', label: 'Weer bevestigd' },
+    { key: 'no_show', label: 'Niet verschenen' }
+  ];
+
 
   return (
     <div className="container">
@@ -337,6 +633,30 @@ const Settings: React.FC = () => {
                   placeholder="Voer restaurant naam in"
                 />
               </div>
+              <div className="form-group">
+                <label className="form-label">Adres</label>
+                <input
+                  type="text"
+                  value={restaurantAddress}
+                  onChange={(e) => setRestaurantAddress(e.target.value)}
+                  className="form-input"
+                  placeholder="Straat 1, 1234 AB Plaats"
+                />
+                <small className="text-muted">Staat als locatie in de agenda-uitnodiging voor gasten</small>
+              </div>
+              <div className="form-group">
+                <label className="form-label">Tijdzone</label>
+                <input
+                  type="text"
+                  value={timeZone}
+                  onChange={(e) => setTimeZone(e.target.value)}
+                  className="form-input"
+                  placeholder="Europe/Amsterdam"
+                />
+                <small className="text-muted">
+                  Bepaalt wat "vandaag" en "nu" is voor reserveringen, het dashboard en de keuken, ook rond middernacht en de zomertijd.
+                </small>
+              </div>
             </div>
           </div>
 
@@ -409,6 +729,107 @@ const Settings: React.FC = () => {
             </div>
           </div>
 
+          {/* Closures and Special Hours */}
+          <div className="card mb-20">
+            <div className="card-header">
+              <h3 className="card-title">
+                <Calendar size={20} style={{ marginRight: '8px' }} />
+                Sluitingsdagen & Afwijkende Tijden
+              </h3>
+            </div>
+            <div className="card-body">
+              <p className="text-muted">
+                Voor feestdagen, besloten feesten of personeelsuitjes. Het bericht wordt aan gasten getoond bij het reserveren.
+              </p>
+              {closures.length === 0 && <p className="text-muted">Geen geplande sluitingen</p>}
+              {closures.map(closure => (
+                <div key={closure.id} className="flex" style={{ alignItems: 'center', justifyContent: 'space-between', gap: '1rem', padding: '0.5rem 0', borderBottom: '1px solid #eee' }}>
+                  <div>
+                    <strong>{new Date(`${closure.date}T12:00:00`).toLocaleDateString('nl-NL', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}</strong>
+                    {' — '}
+                    {closure.type === 'closed' ? 'Hele dag gesloten' :
+                     closure.type === 'partial' ? `Gesloten van ${closure.start_time?.slice(0, 5)} tot ${closure.end_time?.slice(0, 5)}` :
+                     `Open van ${closure.start_time?.slice(0, 5)} tot ${closure.end_time?.slice(0, 5)}`}
+                    {closure.message && <div className="text-muted">{closure.message}</div>}
+                  </div>
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-danger"
+                    onClick={() => removeClosure(closure.id)}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+
+              <div className="grid grid-2" style={{ marginTop: '1rem' }}>
+                <div className="form-group">
+                  <label className="form-label">Datum</label>
+                  <input
+                    type="date"
+                    min={getRestaurantToday(timeZone)}
+                    value={newClosure.date}
+                    onChange={(e) => setNewClosure(prev => ({ ...prev, date: e.target.value }))}
+                    className="form-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Soort</label>
+                  <select
+                    value={newClosure.type}
+                    onChange={(e) => setNewClosure(prev => ({ ...prev, type: e.target.value as Closure['type'] }))}
+                    className="form-input"
+                  >
+                    <option value="closed">Hele dag gesloten</option>
+                    <option value="partial">Deel van de dag gesloten</option>
+                    <option value="custom_hours">Afwijkende openingstijden</option>
+                  </select>
+                </div>
+                {newClosure.type !== 'closed' && (
+                  <>
+                    <div className="form-group">
+                      <label className="form-label">{newClosure.type === 'partial' ? 'Gesloten vanaf' : 'Open vanaf'}</label>
+                      <input
+                        type="time"
+                        value={newClosure.start_time}
+                        onChange={(e) => setNewClosure(prev => ({ ...prev, start_time: e.target.value }))}
+                        className="form-input"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label className="form-label">{newClosure.type === 'partial' ? 'Gesloten tot' : 'Open tot'}</label>
+                      <input
+                        type="time"
+                        value={newClosure.end_time}
+                        onChange={(e) => setNewClosure(prev => ({ ...prev, end_time: e.target.value }))}
+                        className="form-input"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+              <div className="form-group">
+                <label className="form-label">Bericht voor gasten (optioneel)</label>
+                <input
+                  type="text"
+                  value={newClosure.message}
+                  onChange={(e) => setNewClosure(prev => ({ ...prev, message: e.target.value }))}
+                  className="form-input"
+                  placeholder="Bijv. Wij zijn gesloten voor een besloten feest"
+                />
+              </div>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={addClosure}
+                disabled={!newClosure.date}
+              >
+                <Plus size={16} style={{ marginRight: '8px' }} />
+                Sluiting Toevoegen
+              </button>
+            </div>
+          </div>
+
           {/* Reservation Settings */}
           <div className="card mb-20">
             <div className="card-header">
@@ -425,8 +846,9 @@ const Settings: React.FC = () => {
                     type="number"
                     min="1"
                     max="8"
+                    step="0.5"
                     value={defaultDuration}
-                    onChange={(e) => setDefaultDuration(parseInt(e.target.value))}
+                    onChange={(e) => setDefaultDuration(parseFloat(e.target.value))}
                     className="form-input"
                   />
                   <small className="text-muted">Hoe lang duurt een standaard reservering</small>
@@ -468,6 +890,525 @@ const Settings: React.FC = () => {
                   <small className="text-muted">Hoe kort van tevoren kunnen klanten nog reserveren</small>
                 </div>
               </div>
+
+              {/* Duration per party size */}
+              <div className="form-group">
+                <label className="form-label">Reserveringsduur per groepsgrootte</label>
+                <small className="text-muted">
+                  Regels voor specifieke dagen gaan voor regels zonder dagen. Zonder passende regel geldt de standaard reserveringsduur.
+                </small>
+                {durationRules.map((rule, index) => (
+                  <div key={index} className="flex" style={{ alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', marginTop: '0.75rem' }}>
+                    <input
+                      type="number"
+                      min="1"
+                      value={rule.minGuests}
+                      onChange={(e) => updateDurationRule(index, { minGuests: parseInt(e.target.value) || 1 })}
+                      className="form-input"
+                      style={{ width: '80px' }}
+                    />
+                    <span>tot en met</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={rule.maxGuests ?? ''}
+                      placeholder="∞"
+                      onChange={(e) => updateDurationRule(index, { maxGuests: e.target.value ? parseInt(e.target.value) : null })}
+                      className="form-input"
+                      style={{ width: '80px' }}
+                    />
+                    <span>gasten:</span>
+                    <input
+                      type="number"
+                      min="0.5"
+                      max="8"
+                      step="0.5"
+                      value={rule.durationHours}
+                      onChange={(e) => updateDurationRule(index, { durationHours: parseFloat(e.target.value) || defaultDuration })}
+                      className="form-input"
+                      style={{ width: '80px' }}
+                    />
+                    <span>uur</span>
+                    {Object.keys(dayNames).map(day => (
+                      <label key={day} className="flex" style={{ alignItems: 'center', gap: '0.25rem' }}>
+                        <input
+                          type="checkbox"
+                          checked={(rule.days || []).includes(day)}
+                          onChange={() => toggleDurationRuleDay(index, day)}
+                        />
+                        {dayNames[day as keyof typeof dayNames].slice(0, 2)}
+                      </label>
+                    ))}
+                    <button
+                      type="button"
+                      className="btn btn-sm btn-danger"
+                      onClick={() => removeDurationRule(index)}
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={addDurationRule}
+                  style={{ marginTop: '0.75rem' }}
+                >
+                  <Plus size={16} style={{ marginRight: '8px' }} />
+                  Regel Toevoegen
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Kitchen Pacing */}
+          <div className="card mb-20">
+            <div className="card-header">
+              <h3 className="card-title">
+                <ChefHat size={20} style={{ marginRight: '8px' }} />
+                Keukenplanning
+              </h3>
+            </div>
+            <div className="card-body">
+              <p className="text-muted">
+                Beperk hoeveel gasten en tafels tegelijk binnenkomen. Laat een veld leeg voor geen limiet.
+              </p>
+              <div className="grid grid-2">
+                <div className="form-group">
+                  <label className="form-label">Interval</label>
+                  <select
+                    value={pacing.intervalMinutes}
+                    onChange={(e) => setPacing(prev => ({ ...prev, intervalMinutes: parseInt(e.target.value) }))}
+                    className="form-input"
+                  >
+                    <option value={15}>15 minuten</option>
+                    <option value={30}>30 minuten</option>
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Maximaal couverts per interval</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={pacing.maxCovers ?? ''}
+                    onChange={(e) => setPacing(prev => ({ ...prev, maxCovers: parseLimit(e.target.value) }))}
+                    className="form-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Maximaal nieuwe tafels per interval</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={pacing.maxBookings ?? ''}
+                    onChange={(e) => setPacing(prev => ({ ...prev, maxBookings: parseLimit(e.target.value) }))}
+                    className="form-input"
+                  />
+                </div>
+              </div>
+
+              <label className="form-label">Afwijkende limieten per dag</label>
+              {['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map(day => {
+                const dayLimits = (pacing.days || {})[day];
+
+                return (
+                  <div key={day} className="flex" style={{ alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', marginTop: '0.5rem' }}>
+                    <div style={{ minWidth: '120px' }}>
+                      <label className="flex" style={{ alignItems: 'center', gap: '0.5rem' }}>
+                        <input
+                          type="checkbox"
+                          checked={!!dayLimits}
+                          onChange={(e) => updatePacingDay(day, e.target.checked
+                            ? { maxCovers: pacing.maxCovers, maxBookings: pacing.maxBookings }
+                            : null)}
+                        />
+                        {dayNames[day as keyof typeof dayNames]}
+                      </label>
+                    </div>
+                    {dayLimits && (
+                      <>
+                        <input
+                          type="number"
+                          min="0"
+                          value={dayLimits.maxCovers ?? ''}
+                          placeholder="Couverts"
+                          onChange={(e) => updatePacingDay(day, { ...dayLimits, maxCovers: parseLimit(e.target.value) })}
+                          className="form-input"
+                          style={{ width: '120px' }}
+                        />
+                        <span>couverts</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={dayLimits.maxBookings ?? ''}
+                          placeholder="Tafels"
+                          onChange={(e) => updatePacingDay(day, { ...dayLimits, maxBookings: parseLimit(e.target.value) })}
+                          className="form-input"
+                          style={{ width: '120px' }}
+                        />
+                        <span>tafels</span>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Owner Approval */}
+          <div className="card mb-20">
+            <div className="card-header">
+              <h3 className="card-title">
+                <Users size={20} style={{ marginRight: '8px' }} />
+                Goedkeuring
+              </h3>
+            </div>
+            <div className="card-body">
+              <p className="text-muted">
+                Deze reserveringen worden niet direct bevestigd maar komen als aanvraag op het dashboard. De tafel
+                wordt vastgehouden tot je de aanvraag goedkeurt of afwijst, of tot de wachttijd verloopt.
+              </p>
+              <div className="grid grid-2">
+                <div className="form-group">
+                  <label className="form-label">Goedkeuring vanaf aantal gasten</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={approval.minGuests ?? ''}
+                    onChange={(e) => setApproval(prev => ({ ...prev, minGuests: parseLimit(e.target.value) }))}
+                    className="form-input"
+                    placeholder="Geen limiet"
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Tafel vasthouden (uren)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={approval.holdHours}
+                    onChange={(e) => setApproval(prev => ({ ...prev, holdHours: parseInt(e.target.value) || 1 }))}
+                    className="form-input"
+                  />
+                </div>
+              </div>
+              <label className="form-label">Altijd goedkeuring op</label>
+              <div className="flex" style={{ gap: '1rem', flexWrap: 'wrap' }}>
+                {['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map(day => (
+                  <label key={day} className="flex" style={{ alignItems: 'center', gap: '0.5rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={approval.days.includes(day)}
+                      onChange={(e) => setApproval(prev => ({
+                        ...prev,
+                        days: e.target.checked ? [...prev.days, day] : prev.days.filter(d => d !== day)
+                      }))}
+                    />
+                    {dayNames[day as keyof typeof dayNames]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Deposits */}
+          <div className="card mb-20">
+            <div className="card-header">
+              <h3 className="card-title">
+                <CreditCard size={20} style={{ marginRight: '8px' }} />
+                Aanbetaling
+              </h3>
+            </div>
+            <div className="card-body">
+              <p className="text-muted">
+                Vraag bij het reserveren een aanbetaling per gast voor grote groepen en op speciale dagen. De
+                reservering is pas bevestigd als de betaling gelukt is. Zet het bedrag op 0 om geen aanbetaling te vragen.
+              </p>
+              <div className="grid grid-2">
+                <div className="form-group">
+                  <label className="form-label">Bedrag per gast (€)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={deposit.amountPerGuest}
+                    onChange={(e) => setDeposit(prev => ({ ...prev, amountPerGuest: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                    className="form-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Aanbetaling vanaf aantal gasten</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={deposit.minGuests ?? ''}
+                    onChange={(e) => setDeposit(prev => ({ ...prev, minGuests: parseLimit(e.target.value) }))}
+                    className="form-input"
+                    placeholder="Alleen op de datums hieronder"
+                  />
+                </div>
+              </div>
+              <label className="form-label">Altijd aanbetaling op</label>
+              <div className="flex" style={{ gap: '0.5rem', marginBottom: '0.5rem' }}>
+                <input
+                  type="date"
+                  value={newDepositDate}
+                  onChange={(e) => setNewDepositDate(e.target.value)}
+                  className="form-input"
+                />
+                <button type="button" className="btn btn-secondary" onClick={addDepositDate} disabled={!newDepositDate}>
+                  <Plus size={16} />
+                </button>
+              </div>
+              <div className="flex" style={{ gap: '0.5rem', flexWrap: 'wrap' }}>
+                {deposit.dates.map(date => (
+                  <span key={date} className="status-badge status-confirmed" style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }}>
+                    {new Date(`${date}T12:00:00`).toLocaleDateString('nl-NL')}
+                    <X
+                      size={14}
+                      style={{ cursor: 'pointer' }}
+                      onClick={() => setDeposit(prev => ({ ...prev, dates: prev.dates.filter(d => d !== date) }))}
+                    />
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Reminders */}
+          <div className="card mb-20">
+            <div className="card-header">
+              <h3 className="card-title">
+                <Bell size={20} style={{ marginRight: '8px' }} />
+                Herinneringen
+              </h3>
+            </div>
+            <div className="card-body">
+              <p className="text-muted">
+                Gasten met een bevestigde reservering krijgen een herinnering per SMS en/of e-mail, met een link om hun
+                komst te bevestigen of te annuleren. Laat leeg om geen herinneringen te sturen.
+              </p>
+              <div className="form-group">
+                <label className="form-label">Uren van tevoren (gescheiden door komma's)</label>
+                <input
+                  type="text"
+                  value={reminderOffsetsInput}
+                  onChange={(e) => handleReminderOffsetsChange(e.target.value)}
+                  className="form-input"
+                  placeholder="24, 3"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Guest Notifications */}
+          <div className="card mb-20">
+            <div className="card-header">
+              <h3 className="card-title">
+                <Send size={20} style={{ marginRight: '8px' }} />
+                Meldingen aan gasten
+              </h3>
+            </div>
+            <div className="card-body">
+              <p className="text-muted">
+                Als het personeel een reservering wijzigt, krijgt de gast automatisch een SMS en/of e-mail bij de
+                aangevinkte wijzigingen. Alle verstuurde berichten zijn terug te zien bij de reservering.
+              </p>
+              <div className="flex" style={{ gap: '1rem', flexWrap: 'wrap' }}>
+                {guestNotificationOptions.map(option => (
+                  <label key={option.key} className="flex" style={{ alignItems: 'center', gap: '0.5rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={guestNotifications[option.key]}
+                      onChange={(e) => setGuestNotifications(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Cancellation Policy */}
+          <div className="card mb-20">
+            <div className="card-header">
+              <h3 className="card-title">
+                <XCircle size={20} style={{ marginRight: '8px' }} />
+                Annuleringsbeleid
+              </h3>
+            </div>
+            <div className="card-body">
+              <p className="text-muted">
+                Gasten gaan bij het reserveren akkoord met dit beleid. Bij een late annulering of een no-show wordt
+                het bedrag bij de reservering vastgelegd. Laat de bedragen op 0 staan voor kosteloos annuleren.
+              </p>
+              <div className="grid grid-2">
+                <div className="form-group">
+                  <label className="form-label">Kosteloos annuleren tot (uren van tevoren)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={cancellation.freeUntilHours}
+                    onChange={(e) => setCancellation(prev => ({ ...prev, freeUntilHours: Math.max(0, parseInt(e.target.value) || 0) }))}
+                    className="form-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Kosten late annulering per gast (€)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={cancellation.lateFeePerGuest}
+                    onChange={(e) => setCancellation(prev => ({ ...prev, lateFeePerGuest: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                    className="form-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Kosten no-show per gast (€)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={cancellation.noShowFeePerGuest}
+                    onChange={(e) => setCancellation(prev => ({ ...prev, noShowFeePerGuest: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                    className="form-input"
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Table Sizes at Peak Times */}
+          <div className="card mb-20">
+            <div className="card-header">
+              <h3 className="card-title">
+                <Building size={20} style={{ marginRight: '8px' }} />
+                Tafelbezetting
+              </h3>
+            </div>
+            <div className="card-body">
+              <p className="text-muted">
+                Houd grote tafels vrij voor groepen: stel in hoeveel lege plaatsen een reservering tijdens de
+                drukte mag overlaten. Laat leeg voor geen limiet. Het minimum aantal gasten per tafel stel je in bij Tafel Beheer.
+              </p>
+              <div className="grid grid-2">
+                <div className="form-group">
+                  <label className="form-label">Drukte vanaf</label>
+                  <input
+                    type="time"
+                    value={oversize.peakStart}
+                    onChange={(e) => setOversize(prev => ({ ...prev, peakStart: e.target.value }))}
+                    className="form-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Drukte tot</label>
+                  <input
+                    type="time"
+                    value={oversize.peakEnd}
+                    onChange={(e) => setOversize(prev => ({ ...prev, peakEnd: e.target.value }))}
+                    className="form-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Maximaal lege plaatsen tijdens de drukte</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={oversize.maxExtraSeats ?? ''}
+                    onChange={(e) => setOversize(prev => ({ ...prev, maxExtraSeats: parseLimit(e.target.value) }))}
+                    className="form-input"
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Staff Calendar Feeds */}
+          <div className="card mb-20">
+            <div className="card-header">
+              <h3 className="card-title">
+                <Rss size={20} style={{ marginRight: '8px' }} />
+                Agenda-feeds voor personeel
+              </h3>
+            </div>
+            <div className="card-body">
+              <p className="text-muted">
+                Een geheime link per medewerker met de komende reserveringen, om te abonneren in de agenda op de
+                telefoon (iCal) of te gebruiken in andere programma's (JSON). Iedereen met de link kan de reserveringen
+                zien: trek een feed in als iemand vertrekt of de link is gedeeld.
+              </p>
+              {staffFeeds.length === 0 && <p className="text-muted">Nog geen feeds</p>}
+              {staffFeeds.map(feed => (
+                <div key={feed.id} className="flex" style={{ alignItems: 'center', justifyContent: 'space-between', gap: '1rem', padding: '0.5rem 0', borderBottom: '1px solid #eee' }}>
+                  <div style={{ minWidth: 0 }}>
+                    <strong>{feed.name}</strong>
+                    {' — '}
+                    {feed.area_id ? feedAreas.find(area => area.id === feed.area_id)?.name || 'Onbekende ruimte' : 'Alle ruimtes'}
+                    {feed.min_guests ? `, vanaf ${feed.min_guests} gasten` : ''}
+                    <div className="text-muted" style={{ wordBreak: 'break-all' }}>
+                      <a href={getStaffFeedUrl(feed, 'ics').replace(/^https?:/, 'webcal:')}>iCal</a>
+                      {' • '}
+                      <a href={getStaffFeedUrl(feed, 'json')} target="_blank" rel="noopener noreferrer">JSON</a>
+                      {' • '}
+                      {getStaffFeedUrl(feed, 'ics')}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-danger"
+                    onClick={() => revokeStaffFeed(feed)}
+                  >
+                    Intrekken
+                  </button>
+                </div>
+              ))}
+
+              <div className="grid grid-2" style={{ marginTop: '1rem' }}>
+                <div className="form-group">
+                  <label className="form-label">Naam</label>
+                  <input
+                    type="text"
+                    value={newFeed.name}
+                    onChange={(e) => setNewFeed(prev => ({ ...prev, name: e.target.value }))}
+                    className="form-input"
+                    placeholder="Bijv. Sanne (bedrijfsleider)"
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Ruimte</label>
+                  <select
+                    value={newFeed.area_id}
+                    onChange={(e) => setNewFeed(prev => ({ ...prev, area_id: e.target.value }))}
+                    className="form-input"
+                  >
+                    <option value="">Alle ruimtes</option>
+                    {feedAreas.map(area => (
+                      <option key={area.id} value={area.id}>{area.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Vanaf aantal gasten</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={newFeed.min_guests ?? ''}
+                    onChange={(e) => setNewFeed(prev => ({ ...prev, min_guests: parseLimit(e.target.value) }))}
+                    className="form-input"
+                    placeholder="Alle reserveringen"
+                  />
+                </div>
+              </div>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={addStaffFeed}
+                disabled={!newFeed.name.trim()}
+              >
+                <Plus size={16} style={{ marginRight: '8px' }} />
+                Feed Aanmaken
+              </button>
             </div>
           </div>
 
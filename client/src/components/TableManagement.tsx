@@ -1,19 +1,36 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { 
-  Users, Plus, Edit, Trash2, Check, X, Building
+  Users, Plus, Edit, Trash2, Check, X, Building, MapPin
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { formatDateKey, isAreaOpen, TABLE_ATTRIBUTES, getAttributeLabel } from '../lib/availability';
 
 interface Table {
   id: string;
   name: string;
   seats: number;
+  min_seats: number | null;
+  combinable_with: string[] | null;
+  area_id: string | null;
+  attributes: string[] | null;
   created_at: string;
   updated_at: string;
 }
 
+interface Area {
+  id: string;
+  name: string;
+  active: boolean;
+  season_start_month: number | null;
+  season_end_month: number | null;
+}
+
+const monthNames = ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december'];
+
 const TableManagement: React.FC = () => {
   const [tables, setTables] = useState<Table[]>([]);
+  const [areas, setAreas] = useState<Area[]>([]);
+  const [newAreaName, setNewAreaName] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
@@ -23,7 +40,10 @@ const TableManagement: React.FC = () => {
   const [editingTable, setEditingTable] = useState<Table | null>(null);
   const [newTable, setNewTable] = useState({
     name: '',
-    seats: 2
+    seats: 2,
+    min_seats: 1,
+    area_id: '',
+    attributes: [] as string[]
   });
 
   const fetchTables = useCallback(async () => {
@@ -44,26 +64,140 @@ const TableManagement: React.FC = () => {
     }
   }, []);
 
+  const fetchAreas = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('areas')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setAreas(data || []);
+    } catch (error: any) {
+      console.error('Error fetching areas:', error);
+      setError('Fout bij het laden van ruimtes');
+    }
+  }, []);
+
   useEffect(() => {
     fetchTables();
-  }, [fetchTables]);
+    fetchAreas();
+  }, [fetchTables, fetchAreas]);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setNewTable(prev => ({
       ...prev,
-      [name]: name === 'seats' ? parseInt(value) || 2 : value
+      [name]: name === 'seats' ? parseInt(value) || 2 : name === 'min_seats' ? parseInt(value) || 1 : value
     }));
   };
 
-  const handleEditInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleEditInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setEditingTable(prev => prev ? {
       ...prev,
-      [name]: name === 'seats' ? parseInt(value) || 2 : value
+      [name]: name === 'seats' ? parseInt(value) || 2 : name === 'min_seats' ? parseInt(value) || 1 : value
     } : null);
   };
 
+  const handleCombinableChange = (tableId: string, checked: boolean) => {
+    setEditingTable(prev => prev ? {
+      ...prev,
+      combinable_with: checked
+        ? [...(prev.combinable_with || []), tableId]
+        : (prev.combinable_with || []).filter(id => id !== tableId)
+    } : null);
+  };
+
+  const handleAttributeChange = (attribute: string, checked: boolean) => {
+    setNewTable(prev => ({
+      ...prev,
+      attributes: checked ? [...prev.attributes, attribute] : prev.attributes.filter(a => a !== attribute)
+    }));
+  };
+
+  const handleEditAttributeChange = (attribute: string, checked: boolean) => {
+    setEditingTable(prev => prev ? {
+      ...prev,
+      attributes: checked
+        ? [...(prev.attributes || []), attribute]
+        : (prev.attributes || []).filter(a => a !== attribute)
+    } : null);
+  };
+
+  const getTableNames = (tableIds: string[] | null): string => {
+    return (tableIds || [])
+      .map(id => tables.find(table => table.id === id)?.name)
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  const getAreaName = (areaId: string | null): string => {
+    return areas.find(area => area.id === areaId)?.name || '';
+  };
+
+  // "mei t/m september" for a seasonal area
+  const getSeasonLabel = (area: Area): string => {
+    if (!area.season_start_month || !area.season_end_month) return 'Hele jaar';
+    return `${monthNames[area.season_start_month - 1]} t/m ${monthNames[area.season_end_month - 1]}`;
+  };
+
+  const addArea = async () => {
+    if (!newAreaName.trim()) {
+      setError('Naam van de ruimte is verplicht');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('areas')
+        .insert([{ name: newAreaName.trim(), active: true }]);
+
+      if (error) throw error;
+      setSuccess('Ruimte toegevoegd!');
+      setNewAreaName('');
+      await fetchAreas();
+    } catch (error: any) {
+      console.error('Error adding area:', error);
+      setError(error.message || 'Fout bij het toevoegen van ruimte');
+    }
+  };
+
+  const updateArea = async (area: Area, changes: Partial<Area>) => {
+    try {
+      const { error } = await supabase
+        .from('areas')
+        .update(changes)
+        .eq('id', area.id);
+
+      if (error) throw error;
+      setAreas(prev => prev.map(a => a.id === area.id ? { ...a, ...changes } : a));
+    } catch (error: any) {
+      console.error('Error updating area:', error);
+      setError(error.message || 'Fout bij het bijwerken van ruimte');
+    }
+  };
+
+  const deleteArea = async (areaId: string) => {
+    if (!window.confirm('Weet je zeker dat je deze ruimte wilt verwijderen? De tafels blijven bestaan zonder ruimte.')) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('areas')
+        .delete()
+        .eq('id', areaId);
+
+      if (error) throw error;
+      setSuccess('Ruimte verwijderd!');
+      await Promise.all([fetchAreas(), fetchTables()]);
+    } catch (error: any) {
+      console.error('Error deleting area:', error);
+      setError(error.message || 'Fout bij het verwijderen van ruimte');
+    }
+  };
+
   const addTable = async () => {
     if (!newTable.name.trim()) {
       setError('Tafel naam is verplicht');
@@ -75,15 +209,20 @@ const TableManagement: React.FC = () => {
       return;
     }
 
+    if (newTable.min_seats < 1 || newTable.min_seats > newTable.seats) {
+      setError('Minimum aantal gasten moet tussen 1 en het aantal plaatsen liggen');
+      return;
+    }
+
     setLoading(true);
     try {
       const { error } = await supabase
         .from('tables')
-        .insert([newTable]);
+        .insert([{ ...newTable, area_id: newTable.area_id || null }]);
 
       if (error) throw error;
       setSuccess('Tafel succesvol toegevoegd!');
-      setNewTable({ name: '', seats: 2 });
+      setNewTable({ name: '', seats: 2, min_seats: 1, area_id: '', attributes: [] });
       setShowAddTable(false);
       await fetchTables();
     } catch (error: any) {
@@ -105,14 +244,39 @@ const TableManagement: React.FC = () => {
       return;
     }
 
+    if ((table.min_seats || 1) < 1 || (table.min_seats || 1) > table.seats) {
+      setError('Minimum aantal gasten moet tussen 1 en het aantal plaatsen liggen');
+      return;
+    }
+
     setLoading(true);
     try {
+      const combinableWith = table.combinable_with || [];
       const { error } = await supabase
         .from('tables')
-        .update({ name: table.name, seats: table.seats })
+        .update({ name: table.name, seats: table.seats, min_seats: table.min_seats || 1, combinable_with: combinableWith, area_id: table.area_id || null, attributes: table.attributes || [] })
         .eq('id', table.id);
 
       if (error) throw error;
+
+      // Keep the combination symmetric on the other tables
+      for (const other of tables.filter(t => t.id !== table.id)) {
+        const otherCombinable = other.combinable_with || [];
+        const shouldLink = combinableWith.includes(other.id);
+        if (shouldLink === otherCombinable.includes(table.id)) continue;
+
+        const { error: otherError } = await supabase
+          .from('tables')
+          .update({
+            combinable_with: shouldLink
+              ? [...otherCombinable, table.id]
+              : otherCombinable.filter(id => id !== table.id)
+          })
+          .eq('id', other.id);
+
+        if (otherError) throw otherError;
+      }
+
       setSuccess('Tafel succesvol bijgewerkt!');
       setEditingTable(null);
       await fetchTables();
@@ -153,7 +317,7 @@ const TableManagement: React.FC = () => {
 
   const cancelAdd = () => {
     setShowAddTable(false);
-    setNewTable({ name: '', seats: 2 });
+    setNewTable({ name: '', seats: 2, min_seats: 1, area_id: '', attributes: [] });
   };
 
   if (loading && tables.length === 0) {
@@ -191,6 +355,83 @@ const TableManagement: React.FC = () => {
         {error && <div className="error">{error}</div>}
         {success && <div className="alert alert-success">{success}</div>}
 
+        {/* Seating Areas */}
+        <div className="card mb-20">
+          <div className="card-header">
+            <h3 className="card-title">
+              <MapPin size={20} style={{ marginRight: '8px', verticalAlign: 'middle' }} />
+              Ruimtes
+            </h3>
+          </div>
+          <div className="card-body">
+            {areas.length === 0 && (
+              <p className="text-muted">Nog geen ruimtes. Voeg bijvoorbeeld een terras of achterzaal toe.</p>
+            )}
+            {areas.map(area => (
+              <div key={area.id} className="flex" style={{ alignItems: 'center', gap: '1rem', flexWrap: 'wrap', padding: '0.5rem 0' }}>
+                <strong style={{ minWidth: '140px' }}>{area.name}</strong>
+                <label className="flex" style={{ alignItems: 'center', gap: '0.5rem' }}>
+                  <input
+                    type="checkbox"
+                    checked={area.active}
+                    onChange={(e) => updateArea(area, { active: e.target.checked })}
+                  />
+                  <span>In gebruik</span>
+                </label>
+                <select
+                  value={area.season_start_month || ''}
+                  onChange={(e) => {
+                    const month = e.target.value ? parseInt(e.target.value) : null;
+                    updateArea(area, { season_start_month: month, season_end_month: month ? area.season_end_month || month : null });
+                  }}
+                  className="form-input"
+                  style={{ width: '140px' }}
+                >
+                  <option value="">Hele jaar</option>
+                  {monthNames.map((month, index) => (
+                    <option key={month} value={index + 1}>Vanaf {month}</option>
+                  ))}
+                </select>
+                {area.season_start_month && (
+                  <select
+                    value={area.season_end_month || ''}
+                    onChange={(e) => updateArea(area, { season_end_month: parseInt(e.target.value) })}
+                    className="form-input"
+                    style={{ width: '140px' }}
+                  >
+                    {monthNames.map((month, index) => (
+                      <option key={month} value={index + 1}>T/m {month}</option>
+                    ))}
+                  </select>
+                )}
+                <span className="text-muted" style={{ fontSize: '0.85rem' }}>
+                  {isAreaOpen(area, formatDateKey(new Date())) ? 'Nu open' : 'Nu gesloten'} • {getSeasonLabel(area)}
+                </span>
+                <button
+                  className="btn btn-icon btn-danger"
+                  onClick={() => deleteArea(area.id)}
+                  title="Verwijderen"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <div className="flex" style={{ gap: '0.5rem', marginTop: '1rem' }}>
+              <input
+                type="text"
+                value={newAreaName}
+                onChange={(e) => setNewAreaName(e.target.value)}
+                className="form-input"
+                placeholder="Bijv. Terras, Raamtafels, Achterzaal"
+              />
+              <button className="btn btn-secondary" onClick={addArea}>
+                <Plus size={16} style={{ marginRight: '8px' }} />
+                Ruimte Toevoegen
+              </button>
+            </div>
+          </div>
+        </div>
+
         {/* Add Table Form */}
         {showAddTable && (
           <div className="card mb-20" style={{ background: 'var(--neutral-50)', border: '2px solid var(--primary-color)' }}>
@@ -224,6 +465,47 @@ const TableManagement: React.FC = () => {
                     required
                   />
                 </div>
+                <div className="form-group">
+                  <label className="form-label">Minimum Aantal Gasten</label>
+                  <input
+                    type="number"
+                    name="min_seats"
+                    min="1"
+                    max={newTable.seats}
+                    value={newTable.min_seats}
+                    onChange={handleInputChange}
+                    className="form-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Ruimte</label>
+                  <select
+                    name="area_id"
+                    value={newTable.area_id}
+                    onChange={handleInputChange}
+                    className="form-input"
+                  >
+                    <option value="">Geen ruimte</option>
+                    {areas.map(area => (
+                      <option key={area.id} value={area.id}>{area.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="form-group">
+                <label className="form-label">Kenmerken</label>
+                <div className="flex" style={{ gap: '1rem', flexWrap: 'wrap' }}>
+                  {TABLE_ATTRIBUTES.map(attribute => (
+                    <label key={attribute.key} className="flex" style={{ alignItems: 'center', gap: '0.5rem' }}>
+                      <input
+                        type="checkbox"
+                        checked={newTable.attributes.includes(attribute.key)}
+                        onChange={(e) => handleAttributeChange(attribute.key, e.target.checked)}
+                      />
+                      <span>{attribute.label}</span>
+                    </label>
+                  ))}
+                </div>
               </div>
               <div className="flex" style={{ gap: '1rem', marginTop: '1rem' }}>
                 <button
@@ -286,7 +568,66 @@ const TableManagement: React.FC = () => {
                             required
                           />
                         </div>
+                        <div className="form-group">
+                          <label className="form-label">Minimum Aantal Gasten</label>
+                          <input
+                            type="number"
+                            name="min_seats"
+                            min="1"
+                            max={editingTable.seats}
+                            value={editingTable.min_seats || 1}
+                            onChange={handleEditInputChange}
+                            className="form-input"
+                          />
+                        </div>
+                        <div className="form-group">
+                          <label className="form-label">Ruimte</label>
+                          <select
+                            name="area_id"
+                            value={editingTable.area_id || ''}
+                            onChange={handleEditInputChange}
+                            className="form-input"
+                          >
+                            <option value="">Geen ruimte</option>
+                            {areas.map(area => (
+                              <option key={area.id} value={area.id}>{area.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                      <div className="form-group">
+                        <label className="form-label">Kenmerken</label>
+                        <div className="flex" style={{ gap: '1rem', flexWrap: 'wrap' }}>
+                          {TABLE_ATTRIBUTES.map(attribute => (
+                            <label key={attribute.key} className="flex" style={{ alignItems: 'center', gap: '0.5rem' }}>
+                              <input
+                                type="checkbox"
+                                checked={(editingTable.attributes || []).includes(attribute.key)}
+                                onChange={(e) => handleEditAttributeChange(attribute.key, e.target.checked)}
+                              />
+                              <span>{attribute.label}</span>
+                            </label>
+                          ))}
+                        </div>
                       </div>
+                      {tables.length > 1 && (
+                        <div className="form-group">
+                          <label className="form-label">Kan worden samengevoegd met</label>
+                          <div className="flex" style={{ gap: '1rem', flexWrap: 'wrap' }}>
+                            {tables.filter(other => other.id !== editingTable.id).map(other => (
+                              <label key={other.id} className="flex" style={{ alignItems: 'center', gap: '0.5rem' }}>
+                                <input
+                                  type="checkbox"
+                                  checked={(editingTable.combinable_with || []).includes(other.id)}
+                                  onChange={(e) => handleCombinableChange(other.id, e.target.checked)}
+                                />
+                                <span>{other.name}</span>
+                              </label>
+                            ))}
+                          </div>
+                          <small className="text-muted">Aangrenzende tafels die voor grote groepen aan elkaar geschoven kunnen worden</small>
+                        </div>
+                      )}
                       <div className="flex" style={{ gap: '0.5rem', marginTop: '1rem' }}>
                         <button
                           className="btn btn-primary"
@@ -316,7 +657,19 @@ const TableManagement: React.FC = () => {
                             <h4 className="table-name">{table.name}</h4>
                             <p className="table-seats">
                               {table.seats} {table.seats === 1 ? 'plaats' : 'plaatsen'}
+                              {(table.min_seats || 1) > 1 && ` (vanaf ${table.min_seats} gasten)`}
+                              {getAreaName(table.area_id) && ` • ${getAreaName(table.area_id)}`}
                             </p>
+                            {(table.attributes || []).length > 0 && (
+                              <p className="text-muted" style={{ fontSize: '0.85rem' }}>
+                                {(table.attributes || []).map(attribute => getAttributeLabel(attribute)).join(' • ')}
+                              </p>
+                            )}
+                            {getTableNames(table.combinable_with) && (
+                              <p className="text-muted" style={{ fontSize: '0.85rem' }}>
+                                Samen te voegen met: {getTableNames(table.combinable_with)}
+                              </p>
+                            )}
                           </div>
                         </div>
                         <div className="table-item-actions">
@@ -0,0 +1,251 @@
+import {
+  BookingRules,
+  DEFAULT_BOOKING_RULES,
+  addMinutesToTime,
+  toServiceMinutes,
+  getReservationWindow,
+  generateTimeSlots,
+  findConflictingReservation,
+  getAvailableTables,
+  findTableAssignment,
+  areTablesJoined,
+  optimizeTableAssignments,
+  isPacingLimitReached,
+  getCancellationFee
+} from './availability';
+
+// 2026-10-16 is a Friday
+const FRIDAY = '2026-10-16';
+
+const rulesWithHours = (open: string, close: string, overrides: Partial<BookingRules> = {}): BookingRules => ({
+  ...DEFAULT_BOOKING_RULES,
+  openingHours: { friday: { open, close, closed: false } },
+  ...overrides
+});
+
+describe('addMinutesToTime', () => {
+  it('adds minutes within the day', () => {
+    expect(addMinutesToTime('18:00', 90)).toBe('19:30');
+  });
+
+  it('wraps past midnight instead of giving 24:15', () => {
+    expect(addMinutesToTime('23:30', 45)).toBe('00:15');
+    expect(addMinutesToTime('22:00', 120)).toBe('00:00');
+  });
+
+  it('wraps back before midnight', () => {
+    expect(addMinutesToTime('00:10', -20)).toBe('23:50');
+  });
+
+  it('accepts times with seconds', () => {
+    expect(addMinutesToTime('23:45:00', 30)).toBe('00:15');
+  });
+});
+
+describe('toServiceMinutes', () => {
+  it('keeps evening times as minutes since midnight', () => {
+    expect(toServiceMinutes('18:00')).toBe(18 * 60);
+    expect(toServiceMinutes('23:59')).toBe(23 * 60 + 59);
+  });
+
+  it('puts times before 06:00 after the evening of the same service day', () => {
+    expect(toServiceMinutes('00:15')).toBe(24 * 60 + 15);
+    expect(toServiceMinutes('05:59')).toBe(29 * 60 + 59);
+    expect(toServiceMinutes('00:15')).toBeGreaterThan(toServiceMinutes('23:45'));
+  });
+
+  it('starts a new service day at 06:00', () => {
+    expect(toServiceMinutes('06:00')).toBe(6 * 60);
+    expect(toServiceMinutes('06:00')).toBeLessThan(toServiceMinutes('05:59'));
+  });
+});
+
+describe('getReservationWindow', () => {
+  it('adds the buffer on both sides', () => {
+    expect(getReservationWindow('19:00', 2, 15)).toEqual({ start: 18 * 60 + 45, end: 21 * 60 + 15 });
+  });
+
+  it('runs past midnight without wrapping', () => {
+    expect(getReservationWindow('23:30', 2, 15)).toEqual({ start: 23 * 60 + 15, end: 25 * 60 + 45 });
+    expect(getReservationWindow('00:30', 1, 0)).toEqual({ start: 24 * 60 + 30, end: 25 * 60 + 30 });
+  });
+});
+
+describe('generateTimeSlots', () => {
+  it('stops when the reservation would run past closing', () => {
+    const slots = generateTimeSlots(rulesWithHours('17:00', '23:00'), FRIDAY);
+    expect(slots[0]).toBe('17:00');
+    expect(slots[slots.length - 1]).toBe('21:00');
+  });
+
+  it('continues after midnight when closing after midnight', () => {
+    const slots = generateTimeSlots(rulesWithHours('18:00', '02:00', { durationHours: 1.5 }), FRIDAY);
+    expect(slots).toContain('23:30');
+    expect(slots).toContain('00:00');
+    expect(slots[slots.length - 1]).toBe('00:30');
+    expect(slots).not.toContain('24:00');
+  });
+
+  it('leaves out slots that would run past a closing time after midnight', () => {
+    const slots = generateTimeSlots(rulesWithHours('18:00', '01:00'), FRIDAY);
+    expect(slots[slots.length - 1]).toBe('23:00');
+    expect(slots).not.toContain('23:30');
+  });
+
+  it('gives no slots on a closed day', () => {
+    const rules = { ...DEFAULT_BOOKING_RULES, openingHours: { friday: { open: '17:00', close: '23:00', closed: true } } };
+    expect(generateTimeSlots(rules, FRIDAY)).toEqual([]);
+  });
+});
+
+describe('overlap across midnight', () => {
+  const rules = { ...DEFAULT_BOOKING_RULES, durationHours: 2, bufferMinutes: 15 };
+  const lateReservation = { id: 'late', table_id: 't1', time: '23:30', status: 'confirmed' };
+
+  it('blocks a table for a booking after midnight that overlaps one before midnight', () => {
+    expect(findConflictingReservation('t1', [lateReservation], '00:30', rules)).toBe(lateReservation);
+  });
+
+  it('blocks a table for a booking before midnight that runs into one after midnight', () => {
+    const afterMidnight = { id: 'after', table_id: 't1', time: '00:30', status: 'confirmed' };
+    expect(findConflictingReservation('t1', [afterMidnight], '23:00', rules)).toBe(afterMidnight);
+  });
+
+  it('frees the table once the reservation and both buffers have passed', () => {
+    // 23:30 + 2h + 15 min buffer ends at 01:45; a 02:00 booking starts its buffer at 01:45
+    expect(findConflictingReservation('t1', [lateReservation], '02:00', rules)).toBeUndefined();
+    expect(findConflictingReservation('t1', [lateReservation], '01:45', rules)).toBe(lateReservation);
+  });
+
+  it('does not see an early evening booking as overlapping one after midnight', () => {
+    const afterMidnight = { id: 'after', table_id: 't1', time: '00:30', status: 'confirmed' };
+    expect(findConflictingReservation('t1', [afterMidnight], '18:00', rules)).toBeUndefined();
+  });
+
+  it('ignores cancelled reservations', () => {
+    const cancelled = { ...lateReservation, status: 'cancelled' };
+    expect(findConflictingReservation('t1', [cancelled], '00:30', rules)).toBeUndefined();
+  });
+
+  it('checks every table of a combined reservation', () => {
+    const tables = [
+      { id: 't1', name: 'Tafel 1', seats: 4 },
+      { id: 't2', name: 'Tafel 2', seats: 4 },
+      { id: 't3', name: 'Tafel 3', seats: 4 }
+    ];
+    const combined = { ...lateReservation, combined_table_ids: ['t2'] };
+    expect(getAvailableTables(tables, [combined], '00:00', rules).map(table => table.id)).toEqual(['t3']);
+  });
+});
+
+describe('optimizeTableAssignments', () => {
+  const rules = { ...DEFAULT_BOOKING_RULES };
+  const tables = [
+    { id: 't2', name: 'Tafel 2', seats: 2 },
+    { id: 't4', name: 'Tafel 4', seats: 4 }
+  ];
+  const couple = { id: 'couple', table_id: 't4', time: '19:00', guests: 2, status: 'confirmed' };
+  const booking = { table_id: '', time: '19:00', guests: 4 };
+
+  it('moves a reservation to a smaller table to make room for a booking', () => {
+    const plan = optimizeTableAssignments(tables, [], [couple], rules, FRIDAY, booking);
+    expect(plan?.bookingTableIds).toEqual(['t4']);
+    expect(plan?.moves).toEqual([{ reservation: couple, tableIds: ['t2'] }]);
+  });
+
+  it('never moves a reservation whose table is locked', () => {
+    const locked = { ...couple, table_locked: true };
+    expect(optimizeTableAssignments(tables, [], [locked], rules, FRIDAY, booking)).toBeNull();
+    expect(optimizeTableAssignments(tables, [], [locked], rules, FRIDAY)?.moves).toEqual([]);
+  });
+
+  it('never moves guests who have arrived', () => {
+    const arrived = { ...couple, status: 'arrived' };
+    expect(optimizeTableAssignments(tables, [], [arrived], rules, FRIDAY, booking)).toBeNull();
+  });
+});
+
+describe('table combinations', () => {
+  const rules = { ...DEFAULT_BOOKING_RULES };
+
+  it('joins tables that are combinable', () => {
+    const tables = [
+      { id: 'a', name: 'Tafel A', seats: 2, combinable_with: ['b'] },
+      { id: 'b', name: 'Tafel B', seats: 2 }
+    ];
+    expect(findTableAssignment(tables, [], '19:00', 4, rules)?.map(table => table.id)).toEqual(['a', 'b']);
+  });
+
+  it('does not join tables that are not combinable', () => {
+    const tables = [
+      { id: 'a', name: 'Tafel A', seats: 2 },
+      { id: 'b', name: 'Tafel B', seats: 2 }
+    ];
+    expect(findTableAssignment(tables, [], '19:00', 4, rules)).toBeNull();
+  });
+
+  it('only joins a third table to one already in the combination', () => {
+    const chain = [
+      { id: 'a', name: 'Tafel A', seats: 2, combinable_with: ['b'] },
+      { id: 'b', name: 'Tafel B', seats: 2, combinable_with: ['c'] },
+      { id: 'c', name: 'Tafel C', seats: 2 }
+    ];
+    expect(findTableAssignment(chain, [], '19:00', 6, rules)?.map(table => table.id)).toEqual(['a', 'b', 'c']);
+
+    const apart = [chain[0], { ...chain[1], combinable_with: [] }, chain[2]];
+    expect(findTableAssignment(apart, [], '19:00', 6, rules)).toBeNull();
+    expect(areTablesJoined(chain)).toBe(true);
+    expect(areTablesJoined(apart)).toBe(false);
+  });
+});
+
+describe('isPacingLimitReached', () => {
+  const rules = { ...DEFAULT_BOOKING_RULES, pacing: { intervalMinutes: 30, maxCovers: 10, maxBookings: null, days: {} } };
+  const arriving = [{ id: 'r1', table_id: 't1', time: '19:00', guests: 8, status: 'confirmed' }];
+
+  it('allows a party that fills the interval up to the limit', () => {
+    expect(isPacingLimitReached(rules, FRIDAY, arriving, '19:29', 2)).toBe(false);
+  });
+
+  it('refuses a party that would go over the limit in the same interval', () => {
+    expect(isPacingLimitReached(rules, FRIDAY, arriving, '19:29', 3)).toBe(true);
+  });
+
+  it('counts a party at the interval boundary in the next interval', () => {
+    expect(isPacingLimitReached(rules, FRIDAY, arriving, '19:30', 3)).toBe(false);
+  });
+
+  it('ignores cancelled reservations', () => {
+    const cancelled = [{ ...arriving[0], status: 'cancelled' }];
+    expect(isPacingLimitReached(rules, FRIDAY, cancelled, '19:00', 10)).toBe(false);
+  });
+});
+
+describe('getCancellationFee', () => {
+  const policy = { freeUntilHours: 24, lateFeePerGuest: 12.5, noShowFeePerGuest: 0 };
+  const reservation = { date: FRIDAY, time: '19:00', guests: 2 };
+
+  it('is free when cancelling exactly at the end of the free window', () => {
+    expect(getCancellationFee(policy, reservation, { date: '2026-10-15', time: '19:00' })).toBe(0);
+  });
+
+  it('charges the late fee per guest just inside the late-cancel window', () => {
+    expect(getCancellationFee(policy, reservation, { date: '2026-10-15', time: '19:01' })).toBe(25);
+  });
+
+  it('is free just outside the late-cancel window', () => {
+    expect(getCancellationFee(policy, reservation, { date: '2026-10-15', time: '18:59' })).toBe(0);
+  });
+
+  it('counts a reservation after midnight from the calendar day it falls on', () => {
+    // 00:30 on the Friday service day is Saturday 00:30, exactly 24 hours after Friday 00:30
+    const afterMidnight = { ...reservation, time: '00:30' };
+    expect(getCancellationFee(policy, afterMidnight, { date: FRIDAY, time: '00:30' })).toBe(0);
+    expect(getCancellationFee(policy, afterMidnight, { date: FRIDAY, time: '00:31' })).toBe(25);
+  });
+
+  it('charges nothing without a late fee', () => {
+    const free = { ...policy, lateFeePerGuest: 0 };
+    expect(getCancellationFee(free, reservation, { date: FRIDAY, time: '18:00' })).toBe(0);
+  });
+});
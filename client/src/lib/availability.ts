@@ -0,0 +1,941 @@
+// Availability engine shared by the booking flow, the dashboard and the Express server.
+// Keep this file self-contained (no imports): it is compiled on its own to server/lib for the
+// server (`npm run build:server`).
+
+export interface AvailabilityTable {
+  id: string;
+  name: string;
+  seats: number;
+  min_seats?: number | null;
+  combinable_with?: string[] | null;
+  area_id?: string | null;
+  attributes?: string[] | null;
+}
+
+// Seating area such as the terrace or the back room. An area can be switched off,
+// or only be open for part of the year (season months 1-12, wrapping past December).
+export interface AvailabilityArea {
+  id: string;
+  name: string;
+  active: boolean;
+  season_start_month?: number | null;
+  season_end_month?: number | null;
+}
+
+// Guest's area preference; without consent for another area only the preferred area is used
+export interface AreaPreference {
+  areaId: string | null;
+  allowFallback: boolean;
+}
+
+export interface AvailabilityReservation {
+  id?: string;
+  table_id: string;
+  combined_table_ids?: string[] | null;
+  time: string;
+  guests?: number;
+  status?: string;
+  duration_hours?: number | null;
+  buffer_minutes?: number | null;
+  preferred_area_id?: string | null;
+  allow_area_fallback?: boolean | null;
+  needs?: string[] | null;
+  table_locked?: boolean | null;
+}
+
+// Table change proposed by the optimiser for one reservation
+export interface TableMove<R extends AvailabilityReservation> {
+  reservation: R;
+  tableIds: string[];
+}
+
+// Result of re-planning a day: the reservations that change tables, and the tables
+// for the new booking when one was included
+export interface TablePlan<R extends AvailabilityReservation> {
+  moves: TableMove<R>[];
+  bookingTableIds: string[] | null;
+}
+
+export interface OpeningHours {
+  open: string;
+  close: string;
+  closed: boolean;
+}
+
+// Reservation length for a range of party sizes, optionally only on some days of the week
+export interface DurationRule {
+  minGuests: number;
+  maxGuests: number | null;
+  durationHours: number;
+  days?: string[];
+}
+
+// Kitchen pacing: how many covers and new bookings may start within one interval.
+// null means no limit; "days" overrides the limits for a day of the week.
+export interface PacingLimits {
+  maxCovers: number | null;
+  maxBookings: number | null;
+}
+
+export interface PacingRules extends PacingLimits {
+  intervalMinutes: number;
+  days?: { [day: string]: PacingLimits };
+}
+
+// Exception to the weekly opening hours for one date: closed all day, closed between
+// start_time and end_time ("partial"), or open from start_time to end_time ("custom_hours")
+export interface Closure {
+  id?: string;
+  date: string;
+  type: 'closed' | 'partial' | 'custom_hours';
+  start_time?: string | null;
+  end_time?: string | null;
+  message?: string | null;
+}
+
+// How many empty seats a party may leave at its table(s) between peakStart and peakEnd,
+// so large tables stay free for groups at busy times. null means no limit.
+export interface OversizeRules {
+  maxExtraSeats: number | null;
+  peakStart: string;
+  peakEnd: string;
+}
+
+// Bookings that wait for the owner's approval instead of being confirmed right away: parties of
+// minGuests or more (null means no size limit) and bookings on the given days of the week. The
+// table is held for holdHours; after that the request expires.
+export interface ApprovalRules {
+  minGuests: number | null;
+  days: string[];
+  holdHours: number;
+}
+
+// Deposit taken per guest when booking: for parties of minGuests or more (null means no size
+// limit) and on the given dates, e.g. New Year's Eve. An amountPerGuest of 0 switches it off.
+export interface DepositRules {
+  amountPerGuest: number;
+  minGuests: number | null;
+  dates: string[];
+}
+
+// Cancellation policy the guest accepts when booking: cancelling is free until freeUntilHours
+// before the reservation, later it costs lateFeePerGuest per guest; a no-show costs noShowFeePerGuest
+// per guest. Fees of 0 mean there is nothing to accept.
+export interface CancellationPolicy {
+  freeUntilHours: number;
+  lateFeePerGuest: number;
+  noShowFeePerGuest: number;
+}
+
+// Reminders sent before a reservation, in hours before its start (e.g. [24, 3])
+export interface ReminderRules {
+  offsetsHours: number[];
+}
+
+// Changes made by staff that the guest is told about by SMS/email, switched on per kind of change
+export interface GuestNotificationRules {
+  cancelled: boolean;
+  no_show: boolean;
+  confirmed: boolean;
+  time_changed: boolean;
+  table_changed: boolean;
+}
+
+export type ReservationChangeEvent = keyof GuestNotificationRules;
+
+export interface PacingInterval {
+  start: string;
+  end: string;
+  covers: number;
+  bookings: number;
+  limits: PacingLimits;
+}
+
+export interface BookingRules {
+  openingHours: { [day: string]: OpeningHours };
+  durationHours: number;
+  durationRules: DurationRule[];
+  bufferMinutes: number;
+  maxAdvanceDays: number;
+  minAdvanceHours: number;
+  slotIntervalMinutes: number;
+  pacing: PacingRules;
+  oversize: OversizeRules;
+  approval: ApprovalRules;
+  deposit: DepositRules;
+  cancellation: CancellationPolicy;
+  reminders: ReminderRules;
+  guestNotifications: GuestNotificationRules;
+  closures: Closure[];
+  timeZone: string;
+}
+
+export interface RestaurantSettingRow {
+  setting_key: string;
+  setting_value: string;
+}
+
+// Table attributes staff can set, and the matching need a guest can state when booking
+export const TABLE_ATTRIBUTES = [
+  { key: 'step_free', label: 'Drempelvrij', needLabel: 'Rolstoel of kinderwagen (drempelvrij)' },
+  { key: 'booth', label: 'Zitbank', needLabel: 'Zitbank' },
+  { key: 'high_top', label: 'Statafel', needLabel: 'Statafel' },
+  { key: 'high_chair', label: 'Kinderstoel mogelijk', needLabel: 'Kinderstoel' }
+];
+
+// Configuration for reservation duration and buffer
+export const RESERVATION_DURATION_HOURS = 2; // Standard reservation duration
+export const BUFFER_MINUTES = 15; // Buffer time before and after reservation
+export const SLOT_INTERVAL_MINUTES = 30;
+export const MAX_COMBINED_TABLES = 3; // Largest number of tables joined for one party
+
+// Times before this hour belong to the previous service day (e.g. a 00:30 slot after a 17:00 opening)
+export const SERVICE_DAY_START_MINUTES = 6 * 60;
+
+// Reservation statuses that occupy a table; a pending request holds its table until it is decided or
+// expires, and a booking awaiting its deposit until the payment succeeds or fails
+export const ACTIVE_RESERVATION_STATUSES = ['awaiting_payment', 'pending', 'confirmed', 'arrived', 'in_progress'];
+
+export const DAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export const DEFAULT_OPENING_HOURS: OpeningHours = { open: '17:00', close: '23:00', closed: false };
+
+export const DEFAULT_BOOKING_RULES: BookingRules = {
+  openingHours: {},
+  durationHours: RESERVATION_DURATION_HOURS,
+  durationRules: [],
+  bufferMinutes: BUFFER_MINUTES,
+  maxAdvanceDays: 30,
+  minAdvanceHours: 2,
+  slotIntervalMinutes: SLOT_INTERVAL_MINUTES,
+  pacing: { intervalMinutes: 30, maxCovers: null, maxBookings: null, days: {} },
+  oversize: { maxExtraSeats: null, peakStart: '18:00', peakEnd: '20:30' },
+  approval: { minGuests: null, days: [], holdHours: 24 },
+  deposit: { amountPerGuest: 0, minGuests: null, dates: [] },
+  cancellation: { freeUntilHours: 24, lateFeePerGuest: 0, noShowFeePerGuest: 0 },
+  reminders: { offsetsHours: [24, 3] },
+  guestNotifications: { cancelled: true, no_show: false, confirmed: true, time_changed: true, table_changed: true },
+  closures: [],
+  timeZone: 'Europe/Amsterdam' // Same default as restaurantTime.ts
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Convert "HH:MM" or "HH:MM:SS" to minutes since midnight
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Convert minutes to "HH:MM", wrapping around midnight
+export const minutesToTime = (minutes: number): string => {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  const mins = wrapped % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
+
+// Add minutes to a time string, "23:30" + 45 gives "00:15" instead of "24:15"
+export const addMinutesToTime = (time: string, minutes: number): string => {
+  return minutesToTime(timeToMinutes(time) + minutes);
+};
+
+// Minutes since the start of the service day, so times after midnight sort after the evening
+export const toServiceMinutes = (time: string): number => {
+  const minutes = timeToMinutes(time);
+  return minutes < SERVICE_DAY_START_MINUTES ? minutes + MINUTES_PER_DAY : minutes;
+};
+
+export const hasTimeOverlap = (start1: number, end1: number, start2: number, end2: number): boolean => {
+  return start1 < end2 && start2 < end1;
+};
+
+// Blocked interval of a reservation including the buffer on both sides
+export const getReservationWindow = (time: string, durationHours: number, bufferMinutes: number) => {
+  const start = toServiceMinutes(time);
+  return {
+    start: start - bufferMinutes,
+    end: start + durationHours * 60 + bufferMinutes
+  };
+};
+
+export const parseBookingRules = (settings: RestaurantSettingRow[], closures: Closure[] = []): BookingRules => {
+  const rules: BookingRules = { ...DEFAULT_BOOKING_RULES, openingHours: {}, durationRules: [], closures: closures || [] };
+
+  for (const setting of settings || []) {
+    if (setting.setting_key.startsWith('opening_hours_')) {
+      try {
+        rules.openingHours[setting.setting_key.replace('opening_hours_', '')] = JSON.parse(setting.setting_value);
+      } catch (error) {
+        console.error(`Invalid opening hours for ${setting.setting_key}:`, error);
+      }
+    } else if (setting.setting_key === 'default_reservation_duration') {
+      rules.durationHours = parseFloat(setting.setting_value) || RESERVATION_DURATION_HOURS;
+    } else if (setting.setting_key === 'duration_rules') {
+      try {
+        rules.durationRules = JSON.parse(setting.setting_value) || [];
+      } catch (error) {
+        console.error('Invalid duration rules:', error);
+      }
+    } else if (setting.setting_key === 'pacing_rules') {
+      try {
+        rules.pacing = { ...DEFAULT_BOOKING_RULES.pacing, ...JSON.parse(setting.setting_value) };
+      } catch (error) {
+        console.error('Invalid pacing rules:', error);
+      }
+    } else if (setting.setting_key === 'approval_rules') {
+      try {
+        rules.approval = { ...DEFAULT_BOOKING_RULES.approval, ...JSON.parse(setting.setting_value) };
+      } catch (error) {
+        console.error('Invalid approval rules:', error);
+      }
+    } else if (setting.setting_key === 'deposit_rules') {
+      try {
+        rules.deposit = { ...DEFAULT_BOOKING_RULES.deposit, ...JSON.parse(setting.setting_value) };
+      } catch (error) {
+        console.error('Invalid deposit rules:', error);
+      }
+    } else if (setting.setting_key === 'cancellation_policy') {
+      try {
+        rules.cancellation = { ...DEFAULT_BOOKING_RULES.cancellation, ...JSON.parse(setting.setting_value) };
+      } catch (error) {
+        console.error('Invalid cancellation policy:', error);
+      }
+    } else if (setting.setting_key === 'reminder_rules') {
+      try {
+        rules.reminders = { ...DEFAULT_BOOKING_RULES.reminders, ...JSON.parse(setting.setting_value) };
+      } catch (error) {
+        console.error('Invalid reminder rules:', error);
+      }
+    } else if (setting.setting_key === 'guest_notification_rules') {
+      try {
+        rules.guestNotifications = { ...DEFAULT_BOOKING_RULES.guestNotifications, ...JSON.parse(setting.setting_value) };
+      } catch (error) {
+        console.error('Invalid guest notification rules:', error);
+      }
+    } else if (setting.setting_key === 'oversize_rules') {
+      try {
+        rules.oversize = { ...DEFAULT_BOOKING_RULES.oversize, ...JSON.parse(setting.setting_value) };
+      } catch (error) {
+        console.error('Invalid oversize rules:', error);
+      }
+    } else if (setting.setting_key === 'default_buffer_minutes') {
+      const buffer = parseInt(setting.setting_value);
+      rules.bufferMinutes = isNaN(buffer) ? BUFFER_MINUTES : buffer;
+    } else if (setting.setting_key === 'max_advance_booking_days') {
+      rules.maxAdvanceDays = parseInt(setting.setting_value) || DEFAULT_BOOKING_RULES.maxAdvanceDays;
+    } else if (setting.setting_key === 'min_advance_booking_hours') {
+      rules.minAdvanceHours = parseInt(setting.setting_value) || 0;
+    } else if (setting.setting_key === 'timezone') {
+      rules.timeZone = setting.setting_value || DEFAULT_BOOKING_RULES.timeZone;
+    }
+  }
+
+  return rules;
+};
+
+// Day of week key ("monday") for a "YYYY-MM-DD" date, independent of the local timezone
+export const getDayKey = (date: string): string => {
+  return DAY_KEYS[new Date(`${date}T12:00:00Z`).getUTCDay()];
+};
+
+// Closures and exceptions entered for a "YYYY-MM-DD" date
+export const getClosuresForDate = (rules: BookingRules, date: string): Closure[] => {
+  return rules.closures.filter(closure => closure.date === date);
+};
+
+// Guest-facing message for a date with a closure or special hours, if any
+export const getClosureMessage = (rules: BookingRules, date: string): string | null => {
+  const closure = getClosuresForDate(rules, date).find(entry => entry.message);
+  return closure ? closure.message : null;
+};
+
+// Opening hours for a "YYYY-MM-DD" date, null when the restaurant is closed that day.
+// Closures and custom hours for the date take precedence over the weekly hours.
+export const getOpeningHours = (rules: BookingRules, date: string): OpeningHours | null => {
+  const closures = getClosuresForDate(rules, date);
+  if (closures.some(closure => closure.type === 'closed')) return null;
+
+  const customHours = closures.find(closure => closure.type === 'custom_hours' && closure.start_time && closure.end_time);
+  if (customHours) {
+    return { open: customHours.start_time.slice(0, 5), close: customHours.end_time.slice(0, 5), closed: false };
+  }
+
+  const hours = rules.openingHours[getDayKey(date)] || DEFAULT_OPENING_HOURS;
+  return hours.closed ? null : hours;
+};
+
+// Whether a reservation starting at this time runs into a partial closure on the date
+const isDuringPartialClosure = (rules: BookingRules, date: string, time: string): boolean => {
+  const start = toServiceMinutes(time);
+  const end = start + rules.durationHours * 60;
+  return getClosuresForDate(rules, date).some(closure => {
+    if (closure.type !== 'partial' || !closure.start_time || !closure.end_time) return false;
+    const closedFrom = toServiceMinutes(closure.start_time);
+    let closedUntil = toServiceMinutes(closure.end_time);
+    if (closedUntil <= closedFrom) closedUntil += MINUTES_PER_DAY;
+    return hasTimeOverlap(start, end, closedFrom, closedUntil);
+  });
+};
+
+// Reason a slot can't be booked because of the opening hours or a closure, null when open
+export const getClosureError = (rules: BookingRules, date: string, time: string): string | null => {
+  if (generateTimeSlots(rules, date).includes(time.slice(0, 5))) return null;
+  return getClosureMessage(rules, date) || 'We zijn op dit tijdstip gesloten. Kies een andere datum of tijd.';
+};
+
+// Reservation length for a party on a "YYYY-MM-DD" date. Rules for that specific day
+// win over rules for every day; without a matching rule the default duration is used.
+export const getDurationHours = (rules: BookingRules, date: string, guests: number): number => {
+  const day = getDayKey(date);
+  const matching = rules.durationRules.filter(rule =>
+    guests >= rule.minGuests &&
+    (rule.maxGuests === null || rule.maxGuests === undefined || guests <= rule.maxGuests) &&
+    (!rule.days || rule.days.length === 0 || rule.days.includes(day))
+  );
+  const dayRule = matching.find(rule => rule.days && rule.days.length > 0);
+  const rule = dayRule || matching[0];
+  return rule ? rule.durationHours : rules.durationHours;
+};
+
+// Whether a booking has to be approved by the owner before it is confirmed
+export const requiresApproval = (rules: BookingRules, date: string, guests: number): boolean => {
+  const { minGuests, days } = rules.approval;
+  return (minGuests !== null && minGuests !== undefined && guests >= minGuests) ||
+    (days || []).includes(getDayKey(date));
+};
+
+// Deposit to pay when booking (0 when none is needed), rounded to whole cents. `always` asks the
+// deposit regardless of party size and date, e.g. from guests flagged after repeated no-shows.
+export const getDepositAmount = (rules: BookingRules, date: string, guests: number, always = false): number => {
+  const { amountPerGuest, minGuests, dates } = rules.deposit;
+  if (!amountPerGuest || amountPerGuest <= 0) return 0;
+
+  const required = always || (minGuests !== null && minGuests !== undefined && guests >= minGuests) ||
+    (dates || []).includes(date);
+  return required ? Math.round(amountPerGuest * guests * 100) / 100 : 0;
+};
+
+// Booking rules with the duration resolved for one party, to pass to the slot and table functions
+export const getPartyBookingRules = (rules: BookingRules, date: string, guests: number): BookingRules => {
+  return { ...rules, durationHours: getDurationHours(rules, date, guests) };
+};
+
+// Time slots between opening and closing time, leaving out slots where the
+// reservation duration would run past closing
+export const generateTimeSlots = (rules: BookingRules, date: string): string[] => {
+  const hours = getOpeningHours(rules, date);
+  if (!hours) return [];
+
+  const openMinutes = timeToMinutes(hours.open);
+  let closeMinutes = timeToMinutes(hours.close);
+  if (closeMinutes <= openMinutes) closeMinutes += MINUTES_PER_DAY; // Closes after midnight
+
+  const slots: string[] = [];
+  const lastStart = closeMinutes - rules.durationHours * 60;
+  for (let minutes = openMinutes; minutes <= lastStart; minutes += rules.slotIntervalMinutes) {
+    slots.push(minutesToTime(minutes));
+  }
+  return slots.filter(slot => !isDuringPartialClosure(rules, date, slot));
+};
+
+// "YYYY-MM-DD" for a Date using its local calendar day
+export const formatDateKey = (date: Date): string => {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+};
+
+// Shift a "YYYY-MM-DD" date by a number of days
+export const addDaysToDateKey = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T12:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
+// Wall-clock minutes from the restaurant's current date and time (see restaurantTime.ts) until a
+// slot; negative when the slot has passed. Slots after midnight belong to the service day before.
+export const getMinutesUntil = (now: { date: string; time: string }, date: string, time: string): number => {
+  const days = (Date.parse(`${date}T00:00:00Z`) - Date.parse(`${now.date}T00:00:00Z`)) / (MINUTES_PER_DAY * 60 * 1000);
+  return days * MINUTES_PER_DAY + toServiceMinutes(time) - timeToMinutes(now.time);
+};
+
+// Check the advance booking rules against the restaurant's current date and time,
+// returns the reason when the slot can't be booked
+export const getBookingWindowError = (
+  rules: BookingRules,
+  date: string,
+  time: string,
+  now: { date: string; time: string }
+): string | null => {
+  const [year, month, day] = date.split('-').map(Number);
+  if (!year || !month || !day || !/^\d{1,2}:\d{2}/.test(time || '')) {
+    return 'Ongeldige datum of tijd.';
+  }
+
+  if (date > addDaysToDateKey(now.date, rules.maxAdvanceDays)) {
+    return `Je kunt maximaal ${rules.maxAdvanceDays} dagen vooruit reserveren.`;
+  }
+
+  if (getMinutesUntil(now, date, time) < rules.minAdvanceHours * 60) {
+    return rules.minAdvanceHours > 0
+      ? `Reserveren kan tot ${rules.minAdvanceHours} uur van tevoren. Kies een later tijdstip.`
+      : 'Dit tijdstip ligt in het verleden. Kies een later tijdstip.';
+  }
+
+  return null;
+};
+
+// Whether the policy charges anything, so guests have to accept it when booking
+export const hasCancellationFees = (policy: CancellationPolicy): boolean => {
+  return policy.lateFeePerGuest > 0 || policy.noShowFeePerGuest > 0;
+};
+
+// Fee owed for cancelling a reservation now (0 while cancelling is still free), in whole cents
+export const getCancellationFee = (
+  policy: CancellationPolicy,
+  reservation: { date: string; time: string; guests: number },
+  now: { date: string; time: string }
+): number => {
+  if (!policy.lateFeePerGuest || policy.lateFeePerGuest <= 0) return 0;
+  if (getMinutesUntil(now, reservation.date, reservation.time) >= policy.freeUntilHours * 60) return 0;
+  return Math.round(policy.lateFeePerGuest * reservation.guests * 100) / 100;
+};
+
+// Fee owed when the guests don't show up, in whole cents
+export const getNoShowFee = (policy: CancellationPolicy, guests: number): number => {
+  if (!policy.noShowFeePerGuest || policy.noShowFeePerGuest <= 0) return 0;
+  return Math.round(policy.noShowFeePerGuest * guests * 100) / 100;
+};
+
+// The policy in words, for the booking page, the manage link and messages to the guest
+export const describeCancellationPolicy = (policy: CancellationPolicy): string => {
+  const parts = [
+    policy.lateFeePerGuest > 0
+      ? `Annuleren is kosteloos tot ${policy.freeUntilHours} uur van tevoren, daarna rekenen we €${policy.lateFeePerGuest.toFixed(2)} per gast.`
+      : 'Annuleren is kosteloos.',
+    policy.noShowFeePerGuest > 0
+      ? `Bij niet verschijnen rekenen we €${policy.noShowFeePerGuest.toFixed(2)} per gast.`
+      : ''
+  ];
+  return parts.filter(Boolean).join(' ');
+};
+
+// Reminder offsets that are due now and weren't sent yet. Offsets that had already passed when the
+// guest booked are left out, the guest has only just had their confirmation.
+export const getDueReminderOffsets = (
+  rules: BookingRules,
+  reservation: { date: string; time: string; reminders_sent?: number[] | null },
+  now: { date: string; time: string },
+  bookedAt: { date: string; time: string }
+): number[] => {
+  const minutesLeft = getMinutesUntil(now, reservation.date, reservation.time);
+  const minutesAtBooking = getMinutesUntil(bookedAt, reservation.date, reservation.time);
+  if (minutesLeft <= 0) return [];
+
+  return (rules.reminders.offsetsHours || [])
+    .filter(hours => hours > 0 && !(reservation.reminders_sent || []).includes(hours))
+    .filter(hours => minutesLeft <= hours * 60 && minutesAtBooking > hours * 60);
+};
+
+// Changes between two versions of a reservation that the guest may need to hear about. A status
+// change says it all, so the time and table are only compared while the status stays the same.
+// "confirmed" is a booking that is back on after being cancelled, declined or left pending.
+export const getReservationChangeEvents = (
+  before: { status: string; date: string; time: string; table_id: string; combined_table_ids?: string[] | null },
+  after: { status: string; date: string; time: string; table_id: string; combined_table_ids?: string[] | null }
+): ReservationChangeEvent[] => {
+  if (before.status !== after.status) {
+    if (after.status === 'cancelled' || after.status === 'no_show') return [after.status];
+    if (after.status === 'confirmed' && !['arrived', 'in_progress', 'completed'].includes(before.status)) return ['confirmed'];
+    return [];
+  }
+
+  const events: ReservationChangeEvent[] = [];
+  if (before.date !== after.date || before.time.slice(0, 5) !== after.time.slice(0, 5)) {
+    events.push('time_changed');
+  }
+  const beforeTables = [before.table_id, ...(before.combined_table_ids || [])].filter(Boolean).sort().join(',');
+  const afterTables = [after.table_id, ...(after.combined_table_ids || [])].filter(Boolean).sort().join(',');
+  if (beforeTables !== afterTables) {
+    events.push('table_changed');
+  }
+  return events;
+};
+
+// All tables a reservation occupies, the main table plus any joined tables
+export const getReservationTableIds = (reservation: AvailabilityReservation): string[] => {
+  return [reservation.table_id, ...(reservation.combined_table_ids || [])].filter(Boolean);
+};
+
+// Tables can be joined when either one lists the other as combinable
+export const areTablesCombinable = (a: AvailabilityTable, b: AvailabilityTable): boolean => {
+  return (a.combinable_with || []).includes(b.id) || (b.combinable_with || []).includes(a.id);
+};
+
+// Whether these tables can be pushed together as one: every table is joined, directly or
+// through the others, to the first
+export const areTablesJoined = (tables: AvailabilityTable[]): boolean => {
+  const joined = tables.slice(0, 1);
+  const rest = tables.slice(1);
+
+  let found = true;
+  while (rest.length > 0 && found) {
+    const index = rest.findIndex(candidate => joined.some(table => areTablesCombinable(table, candidate)));
+    found = index !== -1;
+    if (found) joined.push(...rest.splice(index, 1));
+  }
+  return rest.length === 0;
+};
+
+// Find the existing reservation that blocks a table at the given time, if any
+export const findConflictingReservation = <R extends AvailabilityReservation>(
+  tableId: string,
+  reservations: R[],
+  time: string,
+  rules: BookingRules
+): R | undefined => {
+  const requested = getReservationWindow(time, rules.durationHours, rules.bufferMinutes);
+
+  return reservations.find(reservation => {
+    if (!getReservationTableIds(reservation).includes(tableId)) return false;
+    if (reservation.status && !ACTIVE_RESERVATION_STATUSES.includes(reservation.status)) return false;
+
+    const existing = getReservationWindow(
+      reservation.time,
+      reservation.duration_hours || rules.durationHours,
+      reservation.buffer_minutes ?? rules.bufferMinutes
+    );
+    return hasTimeOverlap(requested.start, requested.end, existing.start, existing.end);
+  });
+};
+
+// Tables without an overlapping reservation at the given time
+export const getAvailableTables = <T extends AvailabilityTable>(
+  tables: T[],
+  reservations: AvailabilityReservation[],
+  time: string,
+  rules: BookingRules
+): T[] => {
+  return tables.filter(table => !findConflictingReservation(table.id, reservations, time, rules));
+};
+
+// Largest number of empty seats allowed at the given time, null outside the peak or without a limit
+export const getMaxExtraSeats = (rules: BookingRules, time: string): number | null => {
+  const { maxExtraSeats, peakStart, peakEnd } = rules.oversize;
+  if (maxExtraSeats === null || maxExtraSeats === undefined) return null;
+
+  const minutes = toServiceMinutes(time);
+  return minutes >= toServiceMinutes(peakStart) && minutes < toServiceMinutes(peakEnd) ? maxExtraSeats : null;
+};
+
+// Whether a party may be seated at these tables: each table's minimum party size is met
+// and, at peak times, the party doesn't leave more empty seats than allowed
+export const isTableSizeAllowed = (
+  tables: AvailabilityTable[],
+  guests: number,
+  rules: BookingRules,
+  time: string
+): boolean => {
+  if (tables.some(table => (table.min_seats || 0) > guests)) return false;
+
+  const maxExtraSeats = getMaxExtraSeats(rules, time);
+  const seats = tables.reduce((total, table) => total + table.seats, 0);
+  return maxExtraSeats === null || seats - guests <= maxExtraSeats;
+};
+
+// Smallest free table with enough seats for the party
+export const findBestTable = <T extends AvailabilityTable>(
+  tables: T[],
+  reservations: AvailabilityReservation[],
+  time: string,
+  guests: number,
+  rules: BookingRules
+): T | null => {
+  const suitableTables = getAvailableTables(tables, reservations, time, rules)
+    .filter(table => table.seats >= guests && isTableSizeAllowed([table], guests, rules, time))
+    .sort((a, b) => a.seats - b.seats);
+  return suitableTables[0] || null;
+};
+
+// Smallest set of free, joinable tables with enough seats for the party. Only used
+// when no single table fits; prefers the fewest spare seats, then the fewest tables.
+export const findTableCombination = <T extends AvailabilityTable>(
+  tables: T[],
+  reservations: AvailabilityReservation[],
+  time: string,
+  guests: number,
+  rules: BookingRules
+): T[] | null => {
+  const freeTables = getAvailableTables(tables, reservations, time, rules)
+    .filter(table => (table.min_seats || 0) <= guests);
+  let best: T[] | null = null;
+  const seatsOf = (combination: T[]) => combination.reduce((total, table) => total + table.seats, 0);
+
+  const extend = (combination: T[]) => {
+    if (combination.length > 1 && seatsOf(combination) >= guests) {
+      if (!best || seatsOf(combination) < seatsOf(best) ||
+          (seatsOf(combination) === seatsOf(best) && combination.length < best.length)) {
+        best = combination;
+      }
+      return;
+    }
+    if (combination.length >= MAX_COMBINED_TABLES) return;
+
+    // Only add tables after the first in list order, joined to one already in the combination
+    const firstIndex = freeTables.indexOf(combination[0]);
+    for (const candidate of freeTables.slice(firstIndex + 1)) {
+      if (combination.includes(candidate)) continue;
+      if (!combination.some(table => areTablesCombinable(table, candidate))) continue;
+      extend([...combination, candidate]);
+    }
+  };
+
+  for (const table of freeTables) {
+    extend([table]);
+  }
+  return best && isTableSizeAllowed(best, guests, rules, time) ? best : null;
+};
+
+// Tables to book for a party: the best single table, or a combination of joinable tables
+export const findTableAssignment = <T extends AvailabilityTable>(
+  tables: T[],
+  reservations: AvailabilityReservation[],
+  time: string,
+  guests: number,
+  rules: BookingRules
+): T[] | null => {
+  const bestTable = findBestTable(tables, reservations, time, guests, rules);
+  if (bestTable) return [bestTable];
+  return findTableCombination(tables, reservations, time, guests, rules);
+};
+
+// Pacing limits for a "YYYY-MM-DD" date, a day override replaces the general limits
+export const getPacingLimits = (rules: BookingRules, date: string): PacingLimits => {
+  const dayLimits = (rules.pacing.days || {})[getDayKey(date)];
+  return dayLimits || { maxCovers: rules.pacing.maxCovers, maxBookings: rules.pacing.maxBookings };
+};
+
+// Start of the pacing interval a time falls in, in service-day minutes
+const getPacingIntervalStart = (rules: BookingRules, time: string): number => {
+  const interval = rules.pacing.intervalMinutes || SLOT_INTERVAL_MINUTES;
+  return Math.floor(toServiceMinutes(time) / interval) * interval;
+};
+
+// Covers and bookings arriving in the same pacing interval as the given time
+export const getPacingLoad = (
+  rules: BookingRules,
+  reservations: AvailabilityReservation[],
+  time: string
+): { covers: number; bookings: number } => {
+  const intervalStart = getPacingIntervalStart(rules, time);
+  const arriving = reservations.filter(reservation =>
+    (!reservation.status || ACTIVE_RESERVATION_STATUSES.includes(reservation.status)) &&
+    getPacingIntervalStart(rules, reservation.time) === intervalStart
+  );
+  return {
+    covers: arriving.reduce((total, reservation) => total + (reservation.guests || 0), 0),
+    bookings: arriving.length
+  };
+};
+
+// Whether one more party of this size would push the interval over the kitchen's pacing limits
+export const isPacingLimitReached = (
+  rules: BookingRules,
+  date: string,
+  reservations: AvailabilityReservation[],
+  time: string,
+  guests: number
+): boolean => {
+  const limits = getPacingLimits(rules, date);
+  const load = getPacingLoad(rules, reservations, time);
+  if (limits.maxCovers !== null && limits.maxCovers !== undefined && load.covers + guests > limits.maxCovers) return true;
+  if (limits.maxBookings !== null && limits.maxBookings !== undefined && load.bookings + 1 > limits.maxBookings) return true;
+  return false;
+};
+
+// Load per pacing interval over the opening hours of a date, for the dashboard
+export const getPacingOverview = (
+  rules: BookingRules,
+  date: string,
+  reservations: AvailabilityReservation[]
+): PacingInterval[] => {
+  const hours = getOpeningHours(rules, date);
+  if (!hours) return [];
+
+  const interval = rules.pacing.intervalMinutes || SLOT_INTERVAL_MINUTES;
+  const openMinutes = toServiceMinutes(hours.open);
+  let closeMinutes = toServiceMinutes(hours.close);
+  if (closeMinutes <= openMinutes) closeMinutes += MINUTES_PER_DAY;
+
+  const limits = getPacingLimits(rules, date);
+  const overview: PacingInterval[] = [];
+  for (let start = Math.floor(openMinutes / interval) * interval; start < closeMinutes; start += interval) {
+    const load = getPacingLoad(rules, reservations, minutesToTime(start));
+    overview.push({ start: minutesToTime(start), end: minutesToTime(start + interval), ...load, limits });
+  }
+  return overview;
+};
+
+// Whether each slot on a date still has a suitable table (or table combination) for the
+// party, and the kitchen can still take the extra covers in that interval
+export const getTimeAvailability = (
+  tables: AvailabilityTable[],
+  reservations: AvailabilityReservation[],
+  slots: string[],
+  guests: number,
+  rules: BookingRules,
+  date: string
+): { [time: string]: boolean } => {
+  const availability: { [time: string]: boolean } = {};
+  for (const slot of slots) {
+    availability[slot] = !isPacingLimitReached(rules, date, reservations, slot, guests) &&
+      !!findTableAssignment(tables, reservations, slot, guests, rules);
+  }
+  return availability;
+};
+
+// Bookable slots closest to the requested time, earlier slots first on a tie
+export const getNearestAvailableTimes = (
+  availability: { [time: string]: boolean },
+  time: string,
+  limit: number = 3
+): string[] => {
+  const requested = toServiceMinutes(time);
+  const distance = (slot: string) => Math.abs(toServiceMinutes(slot) - requested);
+  return Object.keys(availability)
+    .filter(slot => availability[slot] && slot !== time)
+    .sort((a, b) => distance(a) - distance(b) || toServiceMinutes(a) - toServiceMinutes(b))
+    .slice(0, limit);
+};
+
+// Whether a seating area is in use on a "YYYY-MM-DD" date
+export const isAreaOpen = (area: AvailabilityArea, date: string): boolean => {
+  if (!area.active) return false;
+  if (!area.season_start_month || !area.season_end_month) return true;
+
+  const month = Number(date.split('-')[1]);
+  return area.season_start_month <= area.season_end_month
+    ? month >= area.season_start_month && month <= area.season_end_month
+    : month >= area.season_start_month || month <= area.season_end_month;
+};
+
+// Areas guests can choose from on a date
+export const getOpenAreas = <A extends AvailabilityArea>(areas: A[], date: string): A[] => {
+  return areas.filter(area => isAreaOpen(area, date));
+};
+
+// Tables in use on a date: tables without an area, or in an area that is open
+export const getOpenTables = <T extends AvailabilityTable>(tables: T[], areas: AvailabilityArea[], date: string): T[] => {
+  return tables.filter(table => {
+    if (!table.area_id) return true;
+    const area = areas.find(a => a.id === table.area_id);
+    return !area || isAreaOpen(area, date);
+  });
+};
+
+// Tables a party may be seated at: the preferred area only, unless the guest accepts another area
+export const getSeatableTables = <T extends AvailabilityTable>(
+  tables: T[],
+  areas: AvailabilityArea[],
+  date: string,
+  preference: AreaPreference
+): T[] => {
+  const openTables = getOpenTables(tables, areas, date);
+  if (!preference.areaId || preference.allowFallback) return openTables;
+  return openTables.filter(table => table.area_id === preference.areaId);
+};
+
+// Tables to book for a party, trying the preferred area first and the other open areas
+// only when the guest agreed to that
+export const findPreferredTableAssignment = <T extends AvailabilityTable>(
+  tables: T[],
+  areas: AvailabilityArea[],
+  reservations: AvailabilityReservation[],
+  time: string,
+  guests: number,
+  rules: BookingRules,
+  date: string,
+  preference: AreaPreference
+): T[] | null => {
+  const openTables = getOpenTables(tables, areas, date);
+  if (preference.areaId) {
+    const areaTables = openTables.filter(table => table.area_id === preference.areaId);
+    const assignment = findTableAssignment(areaTables, reservations, time, guests, rules);
+    if (assignment || !preference.allowFallback) return assignment;
+  }
+  return findTableAssignment(openTables, reservations, time, guests, rules);
+};
+
+// Tables that have every attribute the guest needs; for joined tables each table must match
+export const filterTablesByNeeds = <T extends AvailabilityTable>(tables: T[], needs: string[] | null | undefined): T[] => {
+  if (!needs || needs.length === 0) return tables;
+  return tables.filter(table => needs.every(need => (table.attributes || []).includes(need)));
+};
+
+// Label of a table attribute or guest need, for display
+export const getAttributeLabel = (key: string, asNeed: boolean = false): string => {
+  const attribute = TABLE_ATTRIBUTES.find(a => a.key === key);
+  if (!attribute) return key;
+  return asNeed ? attribute.needLabel : attribute.label;
+};
+
+// Rules with the duration and buffer a reservation was booked with
+export const getReservationRules = (rules: BookingRules, date: string, reservation: AvailabilityReservation): BookingRules => {
+  const partyRules = getPartyBookingRules(rules, date, reservation.guests || 1);
+  return {
+    ...partyRules,
+    durationHours: reservation.duration_hours || partyRules.durationHours,
+    bufferMinutes: reservation.buffer_minutes ?? partyRules.bufferMinutes
+  };
+};
+
+// Re-assign the day's reservations that haven't been seated yet so tables are used as tightly
+// as possible, optionally making room for a new booking. Seated and locked reservations keep
+// their tables; area preferences, needs and joinable tables are respected. Largest parties are
+// placed first, each on the smallest fit, preferring its current tables to avoid needless moves.
+// Returns null when not every reservation (and the booking) can be seated.
+export const optimizeTableAssignments = <T extends AvailabilityTable, R extends AvailabilityReservation>(
+  tables: T[],
+  areas: AvailabilityArea[],
+  reservations: R[],
+  rules: BookingRules,
+  date: string,
+  booking: AvailabilityReservation | null = null
+): TablePlan<R> | null => {
+  const active = reservations.filter(r => !r.status || ACTIVE_RESERVATION_STATUSES.includes(r.status));
+  const isMovable = (r: AvailabilityReservation) => r.status !== 'arrived' && r.status !== 'in_progress' && !r.table_locked;
+  const queue: AvailabilityReservation[] = [...active.filter(isMovable), ...(booking ? [booking] : [])]
+    .sort((a, b) => (b.guests || 0) - (a.guests || 0) ||
+      (b.needs || []).length - (a.needs || []).length ||
+      toServiceMinutes(a.time) - toServiceMinutes(b.time));
+
+  const placed: AvailabilityReservation[] = active.filter(r => !isMovable(r));
+  const plan: TablePlan<R> = { moves: [], bookingTableIds: null };
+
+  for (const reservation of queue) {
+    const reservationRules = getReservationRules(rules, date, reservation);
+    const currentIds = reservation === booking ? [] : getReservationTableIds(reservation);
+    const candidates = [...filterTablesByNeeds(tables, reservation.needs)]
+      .sort((a, b) => Number(currentIds.includes(b.id)) - Number(currentIds.includes(a.id)));
+
+    const assignment = findPreferredTableAssignment(
+      candidates, areas, placed, reservation.time, reservation.guests || 1, reservationRules, date,
+      { areaId: reservation.preferred_area_id || null, allowFallback: !!reservation.allow_area_fallback }
+    );
+    let tableIds = assignment ? assignment.map(table => table.id) : null;
+
+    // A reservation staff seated outside the rules may stay where it is when that is still free
+    if (!tableIds && currentIds.length > 0 &&
+        currentIds.every(tableId => !findConflictingReservation(tableId, placed, reservation.time, reservationRules))) {
+      tableIds = currentIds;
+    }
+    if (!tableIds) return null;
+
+    placed.push({ ...reservation, table_id: tableIds[0], combined_table_ids: tableIds.slice(1) });
+    if (reservation === booking) {
+      plan.bookingTableIds = tableIds;
+    } else if (tableIds.join(',') !== currentIds.join(',')) {
+      plan.moves.push({ reservation: reservation as R, tableIds });
+    }
+  }
+  return plan;
+};
@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+import { getReservationPeriod, buildCalendarInvite } from './calendarInvite';
+
+const AMSTERDAM = 'Europe/Amsterdam';
+
+const reservation = (date: string, time: string, durationHours = 2) => ({
+  id: 'r1',
+  date,
+  time,
+  guests: 2,
+  duration_hours: durationHours
+});
+
+describe('getReservationPeriod', () => {
+  it('converts the wall-clock time with the offset of the day', () => {
+    expect(getReservationPeriod(reservation('2026-03-28', '19:00'), AMSTERDAM).start.toISOString()).toBe('2026-03-28T18:00:00.000Z');
+    expect(getReservationPeriod(reservation('2026-03-29', '19:00'), AMSTERDAM).start.toISOString()).toBe('2026-03-29T17:00:00.000Z');
+    expect(getReservationPeriod(reservation('2026-10-24', '19:00'), AMSTERDAM).start.toISOString()).toBe('2026-10-24T17:00:00.000Z');
+    expect(getReservationPeriod(reservation('2026-10-25', '19:00'), AMSTERDAM).start.toISOString()).toBe('2026-10-25T18:00:00.000Z');
+  });
+
+  it('puts times after midnight on the next calendar day', () => {
+    const { start, end } = getReservationPeriod(reservation('2026-01-15', '00:30'), AMSTERDAM);
+    expect(start.toISOString()).toBe('2026-01-15T23:30:00.000Z');
+    expect(end.toISOString()).toBe('2026-01-16T01:30:00.000Z');
+  });
+
+  // A single offset lookup at the wall-clock time read as UTC lands on the wrong side of the change
+  it('uses the offset that applies before the clocks go forward', () => {
+    // 01:30 on 29 March is still winter time (UTC+1), although 01:30 UTC is already summer time
+    expect(getReservationPeriod(reservation('2026-03-28', '01:30'), AMSTERDAM).start.toISOString()).toBe('2026-03-29T00:30:00.000Z');
+  });
+
+  it('uses the offset that applies before the clocks go back', () => {
+    // 01:30 on 25 October is still summer time (UTC+2), although 01:30 UTC is already winter time
+    expect(getReservationPeriod(reservation('2026-10-24', '01:30'), AMSTERDAM).start.toISOString()).toBe('2026-10-24T23:30:00.000Z');
+  });
+
+  it('keeps the real duration across a clock change', () => {
+    const { start, end } = getReservationPeriod(reservation('2026-10-24', '01:00', 3), AMSTERDAM);
+    expect(end.getTime() - start.getTime()).toBe(3 * 60 * 60 * 1000);
+  });
+});
+
+describe('buildCalendarInvite', () => {
+  it('writes the start and end in UTC', () => {
+    const invite = buildCalendarInvite(reservation('2026-03-29', '19:00'), {
+      method: 'PUBLISH',
+      restaurant: { name: 'Zaytun', address: '' },
+      timeZone: AMSTERDAM,
+      now: new Date('2026-03-01T12:00:00Z')
+    });
+    expect(invite).toContain('DTSTART:20260329T170000Z\r\n');
+    expect(invite).toContain('DTEND:20260329T190000Z\r\n');
+  });
+});
@@ -0,0 +1,222 @@
+// Calendar invites (.ics, RFC 5545) for reservations. Every invite for a reservation uses the same
+// UID, so a later one with a higher SEQUENCE moves the event in the guest's calendar and one with
+// METHOD:CANCEL removes it. Also builds the staff feed that calendar apps subscribe to.
+// Self-contained (no imports) so the Express server can load it as well.
+
+export const CALENDAR_INVITE_FILENAME = 'reservering.ics';
+
+// Used when the reservation was stored without a duration, same as RESERVATION_DURATION_HOURS
+const DEFAULT_DURATION_HOURS = 2;
+
+// Times before this hour belong to the previous service day, same as SERVICE_DAY_START_MINUTES
+const SERVICE_DAY_START_HOUR = 6;
+
+export interface RestaurantDetails {
+  name: string;
+  address: string;
+}
+
+export interface InviteReservation {
+  id: string;
+  date: string;
+  time: string;
+  guests: number;
+  duration_hours?: number | null;
+  calendar_sequence?: number | null;
+  customer_name?: string | null;
+  customer_email?: string | null;
+}
+
+// PUBLISH for a file the guest downloads, REQUEST for an invite sent by email, CANCEL to remove it
+export type InviteMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+// Reservation in a staff feed, with the names of its table(s)
+export interface FeedReservation extends InviteReservation {
+  status: string;
+  customer_phone?: string | null;
+  notes?: string | null;
+  table_names?: string;
+}
+
+export interface FeedOptions {
+  name: string;
+  restaurant: RestaurantDetails;
+  timeZone: string;
+  now?: Date;
+}
+
+export interface InviteOptions {
+  method: InviteMethod;
+  restaurant: RestaurantDetails;
+  timeZone: string;
+  manageUrl?: string;
+  organizerEmail?: string;
+  now?: Date;
+}
+
+// Restaurant name and address from the restaurant_settings rows
+export const parseRestaurantDetails = (settings: { setting_key: string; setting_value: string }[]): RestaurantDetails => {
+  const value = (key: string) => (settings || []).find(setting => setting.setting_key === key)?.setting_value || '';
+  return {
+    name: value('restaurant_name') || 'Restaurant',
+    address: value('restaurant_address')
+  };
+};
+
+// Offset of the timezone from UTC at an instant, in minutes
+const getTimeZoneOffsetMinutes = (timeZone: string, instant: Date): number => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour') % 24, part('minute'));
+  return Math.round((wallClock - instant.getTime()) / 60000);
+};
+
+// Instant of a date and wall-clock time in the restaurant. The offset is looked up twice, so a
+// time just after a DST change gets the offset that applies on that side of the change.
+const toInstant = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  const firstGuess = wallClock - getTimeZoneOffsetMinutes(timeZone, new Date(wallClock)) * 60000;
+  return new Date(wallClock - getTimeZoneOffsetMinutes(timeZone, new Date(firstGuess)) * 60000);
+};
+
+// "20261020T170000Z"
+const formatUtc = (instant: Date): string => {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Text values escape backslashes, semicolons, commas and newlines
+const escapeText = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+// Parameter values such as CN are quoted instead, and can't contain quotes themselves
+const quoteParam = (value: string): string => {
+  return `"${value.replace(/"/g, "'").replace(/\r?\n/g, ' ')}"`;
+};
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a character
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+// Start and end of a reservation as instants, with times after midnight on the next calendar day
+export const getReservationPeriod = (reservation: InviteReservation, timeZone: string): { start: Date; end: Date } => {
+  const [hours] = reservation.time.split(':').map(Number);
+  let date = reservation.date;
+  if (hours < SERVICE_DAY_START_HOUR) {
+    const [year, month, day] = date.split('-').map(Number);
+    date = new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+  }
+
+  const start = toInstant(date, reservation.time.slice(0, 5), timeZone);
+  const durationHours = Number(reservation.duration_hours) || DEFAULT_DURATION_HOURS;
+  return { start, end: new Date(start.getTime() + durationHours * 60 * 60 * 1000) };
+};
+
+// Calendar around the given properties and events, folded and with CRLF line endings
+const buildCalendar = (properties: string[], events: string[][]): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Tafel Reserveren//Reserveringen//NL',
+    'CALSCALE:GREGORIAN',
+    ...properties,
+    ...events.reduce((all: string[], event) => all.concat(['BEGIN:VEVENT', ...event, 'END:VEVENT']), []),
+    'END:VCALENDAR'
+  ];
+  return lines.filter(Boolean).map(foldLine).join('\r\n') + '\r\n';
+};
+
+// The .ics file for a reservation
+export const buildCalendarInvite = (reservation: InviteReservation, options: InviteOptions): string => {
+  const { method, restaurant, manageUrl, organizerEmail } = options;
+  const { start, end } = getReservationPeriod(reservation, options.timeZone);
+  const description = [
+    `Reservering voor ${reservation.guests} ${reservation.guests === 1 ? 'persoon' : 'personen'}.`,
+    manageUrl ? `Wijzigen of annuleren: ${manageUrl}` : ''
+  ].filter(Boolean).join('\n');
+
+  return buildCalendar([`METHOD:${method}`], [[
+    `UID:reservering-${reservation.id}@tafel-reserveren`,
+    `SEQUENCE:${reservation.calendar_sequence || 0}`,
+    `DTSTAMP:${formatUtc(options.now || new Date())}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(`Reservering bij ${restaurant.name}`)}`,
+    restaurant.address ? `LOCATION:${escapeText(restaurant.address)}` : '',
+    `DESCRIPTION:${escapeText(description)}`,
+    manageUrl ? `URL:${manageUrl}` : '',
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    organizerEmail ? `ORGANIZER;CN=${quoteParam(restaurant.name)}:mailto:${organizerEmail}` : '',
+    organizerEmail && reservation.customer_email
+      ? `ATTENDEE;CN=${quoteParam(reservation.customer_name || reservation.customer_email)};ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:mailto:${reservation.customer_email}`
+      : ''
+  ]]);
+};
+
+// Subscription calendar of upcoming reservations for staff, one event per reservation such as
+// "Jansen (4p)" at "Tafel 3 + Tafel 4". Bookings that aren't confirmed yet are tentative. Calendar
+// apps poll the feed, so a reservation that is cancelled simply drops out of it.
+export const buildReservationFeed = (reservations: FeedReservation[], options: FeedOptions): string => {
+  const stamp = formatUtc(options.now || new Date());
+  const events = reservations.map(reservation => {
+    const { start, end } = getReservationPeriod(reservation, options.timeZone);
+    const tentative = reservation.status === 'pending' || reservation.status === 'awaiting_payment';
+    const description = [
+      reservation.status === 'pending' ? 'Wacht op goedkeuring' : '',
+      reservation.status === 'awaiting_payment' ? 'Wacht op betaling' : '',
+      reservation.customer_phone ? `Telefoon: ${reservation.customer_phone}` : '',
+      reservation.customer_email ? `E-mail: ${reservation.customer_email}` : '',
+      reservation.notes ? `Opmerking: ${reservation.notes}` : ''
+    ].filter(Boolean).join('\n');
+
+    return [
+      `UID:reservering-${reservation.id}-personeel@tafel-reserveren`,
+      `SEQUENCE:${reservation.calendar_sequence || 0}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(start)}`,
+      `DTEND:${formatUtc(end)}`,
+      `SUMMARY:${escapeText(`${reservation.customer_name || 'Reservering'} (${reservation.guests}p)`)}`,
+      `LOCATION:${escapeText([reservation.table_names, options.restaurant.name].filter(Boolean).join(', '))}`,
+      description ? `DESCRIPTION:${escapeText(description)}` : '',
+      `STATUS:${tentative ? 'TENTATIVE' : 'CONFIRMED'}`
+    ];
+  });
+
+  return buildCalendar([
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${options.restaurant.name} - ${options.name}`)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+    'X-PUBLISHED-TTL:PT15M'
+  ], events);
+};
+
+// Link target for downloading an invite in the browser
+export const getCalendarInviteDataUrl = (invite: string): string => {
+  return `data:text/calendar;charset=utf-8,${encodeURIComponent(invite)}`;
+};
@@ -0,0 +1,57 @@
+// Allergens a dish can contain and a guest can declare when booking, and the diets a guest can
+// state. Dishes and reservations use the same allergen keys, so an order can be checked against
+// the guest's declaration. Self-contained so the Express server can load it as well.
+
+export const ALLERGEN_OPTIONS = [
+  'gluten', 'melk', 'eieren', 'noten', 'sesam', 'soja', 'vis', 'schaaldieren',
+  'sulfieten', 'mosterd', 'selderij', 'lupine'
+];
+
+export const DIET_OPTIONS = [
+  { key: 'vegetarian', label: 'Vegetarisch' },
+  { key: 'vegan', label: 'Veganistisch' },
+  { key: 'halal', label: 'Halal' },
+  { key: 'kosher', label: 'Koosjer' },
+  { key: 'pescatarian', label: 'Pescotarisch' }
+];
+
+export interface DietaryDeclaration {
+  allergens?: string[] | null;
+  diets?: string[] | null;
+}
+
+export const getDietLabel = (key: string): string => {
+  return DIET_OPTIONS.find(diet => diet.key === key)?.label || key;
+};
+
+// Only known allergens and diets are stored, whatever the client sent
+export const sanitizeDietaryDeclaration = (declaration: DietaryDeclaration): { allergens: string[]; diets: string[] } => {
+  const known = (values: string[] | null | undefined, options: string[]) =>
+    Array.from(new Set((Array.isArray(values) ? values : []).filter(value => options.includes(value))));
+  return {
+    allergens: known(declaration.allergens, ALLERGEN_OPTIONS),
+    diets: known(declaration.diets, DIET_OPTIONS.map(diet => diet.key))
+  };
+};
+
+export const hasDietaryDeclaration = (declaration: DietaryDeclaration | null | undefined): boolean => {
+  return !!declaration && ((declaration.allergens || []).length > 0 || (declaration.diets || []).length > 0);
+};
+
+// "Allergie: noten, melk • Dieet: Halal"
+export const describeDietaryDeclaration = (declaration: DietaryDeclaration | null | undefined): string => {
+  if (!declaration) return '';
+  return [
+    (declaration.allergens || []).length > 0 ? `Allergie: ${(declaration.allergens || []).join(', ')}` : '',
+    (declaration.diets || []).length > 0 ? `Dieet: ${(declaration.diets || []).map(getDietLabel).join(', ')}` : ''
+  ].filter(Boolean).join(' • ');
+};
+
+// Allergens in a dish that the guest declared
+export const getConflictingAllergens = (
+  dishAllergens: string[] | null | undefined,
+  declaration: DietaryDeclaration | null | undefined
+): string[] => {
+  const declared = declaration?.allergens || [];
+  return (dishAllergens || []).filter(allergen => declared.includes(allergen));
+};
@@ -0,0 +1,44 @@
+// Guest reliability: repeat no-shows are remembered per guest, keyed by their phone number and
+// email address. Self-contained so the Express server can load it as well.
+
+export interface GuestProfile {
+  id: string;
+  phone: string | null;
+  email: string | null;
+  no_show_count: number;
+  last_no_show_at?: string | null;
+  require_deposit: boolean;
+  blocked: boolean;
+}
+
+// "06-12 34 56 78", "0031612345678" and "+31 6 12345678" all become "+31612345678".
+// Numbers starting with a single 0 are taken as Dutch numbers.
+export const normalizePhone = (phone: string | null | undefined): string | null => {
+  const digits = (phone || '').replace(/[^\d+]/g, '');
+  if (!digits) return null;
+  if (digits.startsWith('+')) return `+${digits.slice(1).replace(/\+/g, '')}`;
+  if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+  if (digits.startsWith('0')) return `+31${digits.slice(1)}`;
+  return digits;
+};
+
+export const normalizeEmail = (email: string | null | undefined): string | null => {
+  const normalized = (email || '').trim().toLowerCase();
+  return normalized || null;
+};
+
+// Profile of the guest behind a reservation, matched on phone number first and then email
+export const findGuestProfile = <P extends GuestProfile>(
+  profiles: P[],
+  guest: { customer_phone?: string | null; customer_email?: string | null }
+): P | undefined => {
+  const phone = normalizePhone(guest.customer_phone);
+  const email = normalizeEmail(guest.customer_email);
+  return (phone ? profiles.find(profile => profile.phone === phone) : undefined) ||
+    (email ? profiles.find(profile => profile.email === email) : undefined);
+};
+
+// Guests staff should be warned about when they book
+export const isFlaggedGuest = (profile: GuestProfile | null | undefined): boolean => {
+  return !!profile && (profile.no_show_count > 0 || profile.require_deposit || profile.blocked);
+};
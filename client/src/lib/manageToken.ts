@@ -0,0 +1,15 @@
+// Unguessable tokens for the guest's manage-my-reservation link (/reservering/:token).
+// Self-contained so the Express server can load it as well.
+
+const TOKEN_BYTES = 24;
+
+export const generateManageToken = (): string => {
+  const bytes = new Uint8Array(TOKEN_BYTES);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getManageReservationPath = (token: string): string => `/reservering/${token}`;
+
+// Statuses a guest can still change or cancel through their manage link
+export const GUEST_MANAGEABLE_STATUSES = ['pending', 'confirmed'];
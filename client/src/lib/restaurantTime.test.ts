@@ -0,0 +1,52 @@
+import { DEFAULT_TIME_ZONE, getRestaurantNow, getRestaurantToday, isValidTimeZone } from './restaurantTime';
+
+const AMSTERDAM = 'Europe/Amsterdam';
+
+describe('getRestaurantNow', () => {
+  it('reads winter time as UTC+1 and summer time as UTC+2', () => {
+    expect(getRestaurantNow(AMSTERDAM, new Date('2026-01-15T18:30:00Z'))).toEqual({ date: '2026-01-15', time: '19:30' });
+    expect(getRestaurantNow(AMSTERDAM, new Date('2026-07-15T18:30:00Z'))).toEqual({ date: '2026-07-15', time: '20:30' });
+  });
+
+  it('skips the hour from 02:00 to 03:00 on the last Sunday of March', () => {
+    expect(getRestaurantNow(AMSTERDAM, new Date('2026-03-29T00:59:00Z'))).toEqual({ date: '2026-03-29', time: '01:59' });
+    expect(getRestaurantNow(AMSTERDAM, new Date('2026-03-29T01:00:00Z'))).toEqual({ date: '2026-03-29', time: '03:00' });
+  });
+
+  it('repeats the hour from 02:00 to 03:00 on the last Sunday of October', () => {
+    expect(getRestaurantNow(AMSTERDAM, new Date('2026-10-25T00:30:00Z'))).toEqual({ date: '2026-10-25', time: '02:30' });
+    expect(getRestaurantNow(AMSTERDAM, new Date('2026-10-25T01:30:00Z'))).toEqual({ date: '2026-10-25', time: '02:30' });
+    expect(getRestaurantNow(AMSTERDAM, new Date('2026-10-25T02:00:00Z'))).toEqual({ date: '2026-10-25', time: '03:00' });
+  });
+
+  it('writes midnight as 00:00', () => {
+    expect(getRestaurantNow(AMSTERDAM, new Date('2026-01-15T23:00:00Z'))).toEqual({ date: '2026-01-16', time: '00:00' });
+  });
+
+  it('falls back to the default timezone for an unknown zone', () => {
+    const instant = new Date('2026-07-15T18:30:00Z');
+    expect(isValidTimeZone('Not/AZone')).toBe(false);
+    expect(getRestaurantNow('Not/AZone', instant)).toEqual(getRestaurantNow(DEFAULT_TIME_ZONE, instant));
+  });
+});
+
+describe('getRestaurantToday', () => {
+  it('is already the next day between 00:00 and 02:00 in Amsterdam while UTC is still on the day before', () => {
+    // Winter: 00:00-01:00 Amsterdam is 23:00-00:00 UTC
+    expect(getRestaurantToday(AMSTERDAM, new Date('2026-01-15T23:30:00Z'))).toBe('2026-01-16');
+    // Summer: 00:00-02:00 Amsterdam is 22:00-00:00 UTC
+    expect(getRestaurantToday(AMSTERDAM, new Date('2026-07-15T22:00:00Z'))).toBe('2026-07-16');
+    expect(getRestaurantToday(AMSTERDAM, new Date('2026-07-15T23:59:00Z'))).toBe('2026-07-16');
+  });
+
+  it('is the same day as UTC once both have passed midnight', () => {
+    expect(getRestaurantToday(AMSTERDAM, new Date('2026-07-16T00:30:00Z'))).toBe('2026-07-16');
+  });
+
+  it('changes date at midnight on the nights the clocks change', () => {
+    expect(getRestaurantToday(AMSTERDAM, new Date('2026-03-28T22:59:00Z'))).toBe('2026-03-28');
+    expect(getRestaurantToday(AMSTERDAM, new Date('2026-03-28T23:00:00Z'))).toBe('2026-03-29');
+    expect(getRestaurantToday(AMSTERDAM, new Date('2026-10-24T21:59:00Z'))).toBe('2026-10-24');
+    expect(getRestaurantToday(AMSTERDAM, new Date('2026-10-24T22:00:00Z'))).toBe('2026-10-25');
+  });
+});
@@ -0,0 +1,60 @@
+// Dates and times on the restaurant's clock. Reservations store a plain "YYYY-MM-DD" date and
+// "HH:MM" time, so "today" and "now" have to be read in the restaurant's timezone rather than
+// in UTC or the timezone of the browser or server. Self-contained (no imports) so the Express
+// server can load it as well.
+
+export const DEFAULT_TIME_ZONE = 'Europe/Amsterdam';
+
+// Calendar date and wall-clock time in the restaurant
+export interface RestaurantNow {
+  date: string;
+  time: string;
+}
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Date and wall-clock time of an instant in the given timezone. Intl applies the timezone's
+// DST rules, so this stays correct around the clock changes in spring and autumn.
+export const getRestaurantNow = (timeZone: string, instant: Date = new Date()): RestaurantNow => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  // Some engines write midnight as "24" with hour12 off
+  const hour = part('hour') === '24' ? '00' : part('hour');
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, time: `${hour}:${part('minute')}` };
+};
+
+// "YYYY-MM-DD" of today in the restaurant
+export const getRestaurantToday = (timeZone: string, instant: Date = new Date()): string => {
+  return getRestaurantNow(timeZone, instant).date;
+};
+
+// Timestamp (e.g. an order's created_at) as date and time on the restaurant's clock
+export const formatRestaurantDateTime = (value: string | Date, timeZone: string): string => {
+  return new Date(value).toLocaleString('nl-NL', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE
+  });
+};
+
+// Date object for a "YYYY-MM-DD" key, at noon so its local calendar day is that date
+// in any browser timezone (for date pickers and toLocaleDateString)
+export const dateKeyToDate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day, 12);
+};
@@ -1,10 +1,26 @@
 import { createClient } from '@supabase/supabase-js';
+import axios from 'axios';
 
 const supabaseUrl = process.env.REACT_APP_SUPABASE_URL || 'your_supabase_url_here';
 const supabaseAnonKey = process.env.REACT_APP_SUPABASE_ANON_KEY || 'your_supabase_anon_key_here';
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// The Express API runs on its own host in production (see "Production Deployment" in the README);
+// in development the CRA proxy forwards /api to localhost:3001
+export const apiUrl = process.env.REACT_APP_API_URL || '';
+axios.defaults.baseURL = apiUrl;
+
+// Staff sign in with their Supabase account; API calls carry the session so the server can
+// check staff-only changes such as status updates and approvals
+axios.interceptors.request.use(async (config) => {
+  const { data } = await supabase.auth.getSession();
+  if (data.session) {
+    config.headers.Authorization = `Bearer ${data.session.access_token}`;
+  }
+  return config;
+});
+
 // Realtime subscriptions
 export const subscribeToReservations = (callback: (payload: any) => void) => {
   return supabase
@@ -0,0 +1,19 @@
+-- Owner approval for large parties and busy nights
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Pending requests hold their table until this time; after that they expire
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS hold_expires_at TIMESTAMPTZ;
+
+-- Optional message from the owner sent along with the approval or decline
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS decision_message TEXT;
+
+INSERT INTO restaurant_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'approval_rules',
+  '{"minGuests":null,"days":[],"holdHours":24}',
+  'json',
+  'Reserveringen die eerst goedgekeurd moeten worden: vanaf aantal gasten, op vaste dagen, en hoe lang de tafel wordt vastgehouden'
+)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,27 @@
+-- Seating areas and guest seating preferences
+-- Run this in the Supabase SQL editor on an existing database.
+
+CREATE TABLE IF NOT EXISTS areas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  -- Optional season, e.g. 5 to 9 for a terrace that is open from May to September
+  season_start_month INTEGER CHECK (season_start_month BETWEEN 1 AND 12),
+  season_end_month INTEGER CHECK (season_end_month BETWEEN 1 AND 12),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE areas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read areas" ON areas FOR SELECT USING (true);
+CREATE POLICY "Table management can add areas" ON areas FOR INSERT WITH CHECK (true);
+CREATE POLICY "Table management can update areas" ON areas FOR UPDATE USING (true);
+CREATE POLICY "Table management can delete areas" ON areas FOR DELETE USING (true);
+
+ALTER TABLE tables
+  ADD COLUMN IF NOT EXISTS area_id UUID REFERENCES areas(id) ON DELETE SET NULL;
+
+-- Area the guest asked for, and whether another area is fine when it is full
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS preferred_area_id UUID REFERENCES areas(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS allow_area_fallback BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,15 @@
+-- Calendar invites (.ics) with confirmations, updated or cancelled when the reservation changes
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Revision of the calendar event, raised when the time changes or the reservation is cancelled
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS calendar_sequence INTEGER NOT NULL DEFAULT 0;
+
+INSERT INTO restaurant_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'restaurant_address',
+  '',
+  'string',
+  'Adres van het restaurant, als locatie in agenda-uitnodigingen'
+)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,18 @@
+-- Cancellation policy with late-cancellation and no-show fees
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- The policy the guest accepted when booking, and the fee owed after a late cancellation or no-show
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS cancellation_policy JSONB,
+  ADD COLUMN IF NOT EXISTS policy_accepted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancellation_fee DECIMAL(10,2),
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+INSERT INTO restaurant_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'cancellation_policy',
+  '{"freeUntilHours":24,"lateFeePerGuest":0,"noShowFeePerGuest":0}',
+  'json',
+  'Annuleringsbeleid: kosteloos tot aantal uren van tevoren, daarna kosten per gast; kosten per gast bij een no-show'
+)
+ON CONFLICT (setting_key) DO NOTHING;
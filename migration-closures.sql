@@ -0,0 +1,24 @@
+-- Closures, holidays and special opening hours for specific dates
+-- Run this in the Supabase SQL editor on an existing database.
+
+CREATE TABLE IF NOT EXISTS closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL,
+  -- closed: whole day, partial: closed between start_time and end_time,
+  -- custom_hours: open from start_time to end_time instead of the weekly hours
+  type VARCHAR(20) NOT NULL DEFAULT 'closed' CHECK (type IN ('closed', 'partial', 'custom_hours')),
+  start_time TIME,
+  end_time TIME,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (type = 'closed' OR (start_time IS NOT NULL AND end_time IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_closures_date ON closures (date);
+
+ALTER TABLE closures ENABLE ROW LEVEL SECURITY;
+
+-- The booking page reads closures, staff manage them from Settings
+CREATE POLICY "Anyone can read closures" ON closures FOR SELECT USING (true);
+CREATE POLICY "Settings can add closures" ON closures FOR INSERT WITH CHECK (true);
+CREATE POLICY "Settings can delete closures" ON closures FOR DELETE USING (true);
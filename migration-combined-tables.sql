@@ -0,0 +1,13 @@
+-- Combine adjacent tables for large parties
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Tables that can be pushed together with this table
+ALTER TABLE tables
+  ADD COLUMN IF NOT EXISTS combinable_with UUID[] NOT NULL DEFAULT '{}';
+
+-- Extra tables occupied by a reservation, next to its main table_id
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS combined_table_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_reservations_combined_table_ids
+  ON reservations USING GIN (combined_table_ids);
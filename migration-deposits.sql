@@ -0,0 +1,20 @@
+-- Deposits taken when booking, for large groups and special dates
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Deposit amount in euros, its status (open, paid, failed, refunded, deducted) and the
+-- payment provider's reference for the payment
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS deposit_amount DECIMAL(10,2),
+  ADD COLUMN IF NOT EXISTS deposit_status VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS payment_reference TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_payment_reference ON reservations (payment_reference);
+
+INSERT INTO restaurant_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'deposit_rules',
+  '{"amountPerGuest":0,"minGuests":null,"dates":[]}',
+  'json',
+  'Aanbetaling per gast bij het reserveren: vanaf aantal gasten en op vaste datums (bijv. oudejaarsavond)'
+)
+ON CONFLICT (setting_key) DO NOTHING;
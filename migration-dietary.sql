@@ -0,0 +1,11 @@
+-- Allergies and diets declared by the guest when booking
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Allergens use the same keys as menu_items.allergens (gluten, melk, noten, ...), so dishes
+-- in an order can be checked against them
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS allergens TEXT[] NOT NULL DEFAULT '{}';
+
+-- Diets such as vegetarian, vegan, halal, kosher and pescatarian
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS diets TEXT[] NOT NULL DEFAULT '{}';
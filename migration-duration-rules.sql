@@ -0,0 +1,13 @@
+-- Party-size dependent reservation duration
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Rules as JSON: [{ "minGuests": 1, "maxGuests": 2, "durationHours": 1.5, "days": [] }, ...]
+-- "days" lists weekdays ("friday", "saturday") the rule is limited to, empty means every day.
+INSERT INTO restaurant_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'duration_rules',
+  '[{"minGuests":1,"maxGuests":2,"durationHours":1.5,"days":[]},{"minGuests":3,"maxGuests":4,"durationHours":2,"days":[]},{"minGuests":5,"maxGuests":null,"durationHours":3,"days":[]}]',
+  'json',
+  'Reserveringsduur per groepsgrootte en dag'
+)
+ON CONFLICT (setting_key) DO NOTHING;
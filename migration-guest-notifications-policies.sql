@@ -0,0 +1,8 @@
+-- Only signed-in staff can read the messages sent to guests
+-- Run this in the Supabase SQL editor on a database where an earlier migration-guest-notifications.sql
+-- let anyone with the public (anon) key read the messages, including the manage links in them.
+
+DROP POLICY IF EXISTS "Dashboard can read reservation messages" ON reservation_messages;
+DROP POLICY IF EXISTS "Staff can read reservation messages" ON reservation_messages;
+
+CREATE POLICY "Staff can read reservation messages" ON reservation_messages FOR SELECT TO authenticated USING (true);
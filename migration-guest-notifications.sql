@@ -0,0 +1,33 @@
+-- Messages to guests about changes to their reservation, and a log of everything sent to them
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Every SMS and email sent to a guest, so staff can see what the guest was told
+CREATE TABLE IF NOT EXISTS reservation_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id UUID NOT NULL REFERENCES reservations(id) ON DELETE CASCADE,
+  channel VARCHAR(10) NOT NULL CHECK (channel IN ('sms', 'email')),
+  recipient VARCHAR(255) NOT NULL,
+  subject VARCHAR(255),
+  message TEXT NOT NULL,
+  -- What the message was about, e.g. reminder, cancelled, time_changed
+  event VARCHAR(50),
+  status VARCHAR(10) NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'failed')),
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_messages_reservation ON reservation_messages (reservation_id);
+
+ALTER TABLE reservation_messages ENABLE ROW LEVEL SECURITY;
+
+-- The server writes the log, signed-in staff read it from the dashboard. The messages contain the
+-- guests' manage links, so the public (anon) key can't read them.
+CREATE POLICY "Staff can read reservation messages" ON reservation_messages FOR SELECT TO authenticated USING (true);
+
+INSERT INTO restaurant_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'guest_notification_rules',
+  '{"cancelled":true,"no_show":false,"confirmed":true,"time_changed":true,"table_changed":true}',
+  'json',
+  'Wijzigingen door het personeel waarover de gast een bericht krijgt'
+)
+ON CONFLICT (setting_key) DO NOTHING;
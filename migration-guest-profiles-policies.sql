@@ -0,0 +1,14 @@
+-- Only signed-in staff can read guest profiles and change their flags
+-- Run this in the Supabase SQL editor on a database where an earlier migration-guest-profiles.sql
+-- let anyone with the public (anon) key read the profiles and unblock themselves.
+
+DROP POLICY IF EXISTS "Dashboard can read guest profiles" ON guest_profiles;
+DROP POLICY IF EXISTS "Dashboard can add guest profiles" ON guest_profiles;
+DROP POLICY IF EXISTS "Dashboard can update guest profiles" ON guest_profiles;
+DROP POLICY IF EXISTS "Staff can read guest profiles" ON guest_profiles;
+DROP POLICY IF EXISTS "Staff can add guest profiles" ON guest_profiles;
+DROP POLICY IF EXISTS "Staff can update guest profiles" ON guest_profiles;
+
+CREATE POLICY "Staff can read guest profiles" ON guest_profiles FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Staff can add guest profiles" ON guest_profiles FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Staff can update guest profiles" ON guest_profiles FOR UPDATE TO authenticated USING (true);
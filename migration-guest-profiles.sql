@@ -0,0 +1,26 @@
+-- Guest reliability: no-show counter and flags per guest
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- One profile per guest, keyed by normalised phone number (+31612345678) and/or lowercase email
+CREATE TABLE IF NOT EXISTS guest_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone VARCHAR(50) UNIQUE,
+  email VARCHAR(255) UNIQUE,
+  no_show_count INTEGER NOT NULL DEFAULT 0 CHECK (no_show_count >= 0),
+  last_no_show_at TIMESTAMP WITH TIME ZONE,
+  -- Always ask a deposit when this guest books online
+  require_deposit BOOLEAN NOT NULL DEFAULT false,
+  -- This guest can't book online
+  blocked BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (phone IS NOT NULL OR email IS NOT NULL)
+);
+
+ALTER TABLE guest_profiles ENABLE ROW LEVEL SECURITY;
+
+-- The server counts no-shows with the service role, signed-in staff read and flag guests from the
+-- dashboard. Guests can't read other guests' details or lift their own flags with the public key.
+CREATE POLICY "Staff can read guest profiles" ON guest_profiles FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Staff can add guest profiles" ON guest_profiles FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Staff can update guest profiles" ON guest_profiles FOR UPDATE TO authenticated USING (true);
@@ -0,0 +1,6 @@
+-- Self-service manage-my-reservation links
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Unguessable token used in the guest's /reservering/:token link
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS manage_token TEXT UNIQUE;
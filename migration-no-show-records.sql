@@ -0,0 +1,87 @@
+-- Record no-shows on guest profiles in the same transaction as the reservation's status
+-- Run this in the Supabase SQL editor on an existing database, after migration-guest-profiles.sql
+-- and migration-cancellation-policy.sql.
+
+-- Add p_change (1, or -1 when a no-show is undone) to the no-show count of the guest with this
+-- normalised phone number and/or email, creating the profile on a first no-show. A phone number or
+-- email that already belongs to another profile is not copied over, so the unique keys can't clash.
+CREATE OR REPLACE FUNCTION record_guest_no_show(p_phone TEXT, p_email TEXT, p_change INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  profile_id UUID;
+BEGIN
+  IF p_phone IS NULL AND p_email IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- The profile with the phone number first, like the server's lookup
+  SELECT id INTO profile_id
+  FROM guest_profiles
+  WHERE phone = p_phone OR email = p_email
+  ORDER BY (phone = p_phone) DESC NULLS LAST
+  LIMIT 1
+  FOR UPDATE;
+
+  IF profile_id IS NULL THEN
+    IF p_change <= 0 THEN
+      RETURN;
+    END IF;
+
+    IF p_phone IS NOT NULL THEN
+      INSERT INTO guest_profiles (phone, email, no_show_count, last_no_show_at)
+      VALUES (p_phone, p_email, 1, NOW())
+      ON CONFLICT (phone) DO UPDATE
+        SET no_show_count = guest_profiles.no_show_count + 1, last_no_show_at = NOW(), updated_at = NOW();
+    ELSE
+      INSERT INTO guest_profiles (email, no_show_count, last_no_show_at)
+      VALUES (p_email, 1, NOW())
+      ON CONFLICT (email) DO UPDATE
+        SET no_show_count = guest_profiles.no_show_count + 1, last_no_show_at = NOW(), updated_at = NOW();
+    END IF;
+    RETURN;
+  END IF;
+
+  UPDATE guest_profiles
+  SET
+    no_show_count = GREATEST(0, no_show_count + p_change),
+    last_no_show_at = CASE WHEN p_change > 0 THEN NOW() ELSE last_no_show_at END,
+    phone = COALESCE(phone, CASE WHEN NOT EXISTS (SELECT 1 FROM guest_profiles WHERE phone = p_phone) THEN p_phone END),
+    email = COALESCE(email, CASE WHEN NOT EXISTS (SELECT 1 FROM guest_profiles WHERE email = p_email) THEN p_email END),
+    updated_at = NOW()
+  WHERE id = profile_id;
+END;
+$$;
+
+-- Set a reservation to or back from no_show, with its fee and calendar revision, and count the
+-- no-show on the guest's profile in one step: when either fails, neither is saved
+CREATE OR REPLACE FUNCTION set_reservation_no_show_status(
+  p_reservation_id UUID,
+  p_status TEXT,
+  p_cancellation_fee DECIMAL(10,2),
+  p_cancelled_at TIMESTAMPTZ,
+  p_calendar_sequence INTEGER,
+  p_phone TEXT,
+  p_email TEXT,
+  p_change INTEGER
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE reservations
+  SET
+    status = p_status,
+    cancellation_fee = p_cancellation_fee,
+    cancelled_at = p_cancelled_at,
+    calendar_sequence = COALESCE(p_calendar_sequence, calendar_sequence)
+  WHERE id = p_reservation_id;
+
+  PERFORM record_guest_no_show(p_phone, p_email, p_change);
+END;
+$$;
+
+-- Only the server (service role) may record no-shows
+REVOKE EXECUTE ON FUNCTION record_guest_no_show(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION set_reservation_no_show_status(UUID, TEXT, DECIMAL, TIMESTAMPTZ, INTEGER, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,13 @@
+-- Kitchen pacing limits per arrival interval
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Limits as JSON: { "intervalMinutes": 30, "maxCovers": 20, "maxBookings": 4, "days": { "saturday": { "maxCovers": 24, "maxBookings": 5 } } }
+-- null means no limit.
+INSERT INTO restaurant_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'pacing_rules',
+  '{"intervalMinutes":30,"maxCovers":null,"maxBookings":null,"days":{}}',
+  'json',
+  'Maximaal aantal couverts en nieuwe tafels per interval'
+)
+ON CONFLICT (setting_key) DO NOTHING;
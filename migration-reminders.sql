@@ -0,0 +1,16 @@
+-- Reminders before a reservation with a link to confirm or cancel
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Reminder offsets (hours before) already sent, and when the guest confirmed they're coming
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS reminders_sent INTEGER[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS attendance_confirmed_at TIMESTAMPTZ;
+
+INSERT INTO restaurant_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'reminder_rules',
+  '{"offsetsHours":[24,3]}',
+  'json',
+  'Herinneringen aan gasten: aantal uren voor de reservering'
+)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,19 @@
+-- Keep manage-my-reservation tokens away from the public (anon) key
+-- Run this in the Supabase SQL editor on an existing database, after migration-manage-token.sql.
+
+-- Tokens live in their own table without any policies, so only the server (service role) can read
+-- them; the booking page and dashboard keep reading reservations with the anon key
+CREATE TABLE IF NOT EXISTS reservation_tokens (
+  reservation_id UUID PRIMARY KEY REFERENCES reservations(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE reservation_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Existing links keep working
+INSERT INTO reservation_tokens (reservation_id, token)
+SELECT id, manage_token FROM reservations WHERE manage_token IS NOT NULL
+ON CONFLICT (reservation_id) DO NOTHING;
+
+ALTER TABLE reservations DROP COLUMN IF EXISTS manage_token;
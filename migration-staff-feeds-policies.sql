@@ -0,0 +1,14 @@
+-- Only signed-in staff can list, add or revoke staff feeds
+-- Run this in the Supabase SQL editor on a database where an earlier migration-staff-feeds.sql let
+-- anyone with the public (anon) key read and change the feeds.
+
+DROP POLICY IF EXISTS "Dashboard can read staff feeds" ON staff_feeds;
+DROP POLICY IF EXISTS "Dashboard can add staff feeds" ON staff_feeds;
+DROP POLICY IF EXISTS "Dashboard can delete staff feeds" ON staff_feeds;
+DROP POLICY IF EXISTS "Staff can read staff feeds" ON staff_feeds;
+DROP POLICY IF EXISTS "Staff can add staff feeds" ON staff_feeds;
+DROP POLICY IF EXISTS "Staff can delete staff feeds" ON staff_feeds;
+
+CREATE POLICY "Staff can read staff feeds" ON staff_feeds FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Staff can add staff feeds" ON staff_feeds FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Staff can delete staff feeds" ON staff_feeds FOR DELETE TO authenticated USING (true);
@@ -0,0 +1,23 @@
+-- Secret calendar (iCal) and JSON feeds of upcoming reservations for staff
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- One feed per staff member; deleting a feed revokes its link
+CREATE TABLE IF NOT EXISTS staff_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  -- Unguessable token in the feed URL (/api/feeds/:token.ics)
+  token TEXT NOT NULL UNIQUE,
+  -- Only reservations in this area, or all areas when empty
+  area_id UUID REFERENCES areas(id) ON DELETE SET NULL,
+  -- Only parties of this size or larger, or all when empty
+  min_guests INTEGER CHECK (min_guests IS NULL OR min_guests > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE staff_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in staff manage feeds from Settings; the server looks them up by token with the service
+-- role, which these policies don't apply to
+CREATE POLICY "Staff can read staff feeds" ON staff_feeds FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Staff can add staff feeds" ON staff_feeds FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Staff can delete staff feeds" ON staff_feeds FOR DELETE TO authenticated USING (true);
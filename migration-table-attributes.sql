@@ -0,0 +1,10 @@
+-- Table attributes and guest accessibility needs
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Attributes such as step_free, booth, high_top and high_chair
+ALTER TABLE tables
+  ADD COLUMN IF NOT EXISTS attributes TEXT[] NOT NULL DEFAULT '{}';
+
+-- Attributes the guest needs; only tables that have all of them are assigned
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS needs TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,6 @@
+-- Locked table assignments for the table optimiser
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Locked reservations keep their table(s) when the day's table plan is optimised
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS table_locked BOOLEAN NOT NULL DEFAULT false;
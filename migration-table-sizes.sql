@@ -0,0 +1,16 @@
+-- Minimum party size per table and the peak-time oversize limit
+-- Run this in the Supabase SQL editor on an existing database.
+
+-- Smallest party that may be seated at a table on its own, e.g. 5 for an 8-top
+ALTER TABLE tables
+  ADD COLUMN IF NOT EXISTS min_seats INTEGER NOT NULL DEFAULT 1 CHECK (min_seats >= 1);
+
+-- Empty seats a party may leave at its table(s) between peakStart and peakEnd, null means no limit
+INSERT INTO restaurant_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'oversize_rules',
+  '{"maxExtraSeats":null,"peakStart":"18:00","peakEnd":"20:30"}',
+  'json',
+  'Maximaal aantal lege plaatsen per tafel tijdens de drukte'
+)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,11 @@
+-- Restaurant timezone, used for "today" and "now" in bookings, the dashboard and the kitchen
+-- Run this in the Supabase SQL editor on an existing database.
+
+INSERT INTO restaurant_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'timezone',
+  'Europe/Amsterdam',
+  'string',
+  'Tijdzone van het restaurant (IANA-naam, bijv. Europe/Amsterdam)'
+)
+ON CONFLICT (setting_key) DO NOTHING;
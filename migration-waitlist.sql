@@ -0,0 +1,28 @@
+-- Waitlist for fully booked days
+-- Run this in the Supabase SQL editor on an existing database.
+
+CREATE TABLE IF NOT EXISTS waitlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_name VARCHAR(255) NOT NULL,
+  customer_email VARCHAR(255),
+  customer_phone VARCHAR(50),
+  guests INTEGER NOT NULL CHECK (guests > 0),
+  date DATE NOT NULL,
+  time_from TIME NOT NULL,
+  time_to TIME NOT NULL,
+  notes TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'cancelled')),
+  offered_reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL,
+  offered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_date_status ON waitlist (date, status);
+
+ALTER TABLE waitlist ENABLE ROW LEVEL SECURITY;
+
+-- Guests may add themselves, staff read and update the list from the dashboard
+CREATE POLICY "Anyone can join the waitlist" ON waitlist FOR INSERT WITH CHECK (true);
+CREATE POLICY "Dashboard can read the waitlist" ON waitlist FOR SELECT USING (true);
+CREATE POLICY "Dashboard can update the waitlist" ON waitlist FOR UPDATE USING (true);
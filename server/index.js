@@ -2,8 +2,43 @@ const express = require('express');
 const cors = require('cors');
 const dotenv = require('dotenv');
 const { createClient } = require('@supabase/supabase-js');
-const twilio = require('twilio');
-const nodemailer = require('nodemailer');
+// Shared availability engine from client/src/lib, compiled to server/lib by `npm run build:server`
+const {
+  ACTIVE_RESERVATION_STATUSES,
+  parseBookingRules,
+  getPartyBookingRules,
+  getBookingWindowError,
+  getClosureError,
+  findConflictingReservation,
+  getAvailableTables,
+  findTableAssignment,
+  findPreferredTableAssignment,
+  isPacingLimitReached,
+  getOpenTables,
+  filterTablesByNeeds,
+  isTableSizeAllowed,
+  areTablesJoined,
+  optimizeTableAssignments,
+  requiresApproval,
+  getDepositAmount,
+  hasCancellationFees,
+  getCancellationFee,
+  getNoShowFee,
+  describeCancellationPolicy,
+  getDueReminderOffsets,
+  getReservationChangeEvents,
+  getReservationTableIds,
+  getReservationRules,
+  addDaysToDateKey,
+  getMinutesUntil
+} = require('./lib/availability');
+const { generateManageToken, getManageReservationPath, GUEST_MANAGEABLE_STATUSES } = require('./lib/manageToken');
+const { getRestaurantNow, getRestaurantToday } = require('./lib/restaurantTime');
+const { normalizePhone, normalizeEmail } = require('./lib/guestProfiles');
+const { sanitizeDietaryDeclaration } = require('./lib/dietary');
+const { CALENDAR_INVITE_FILENAME, parseRestaurantDetails, buildCalendarInvite, buildReservationFeed } = require('./lib/calendarInvite');
+const { createPaymentProvider } = require('./payments');
+const { createNotificationProvider } = require('./notifications');
 
 // Load environment variables
 dotenv.config();
@@ -13,7 +48,8 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// The raw body is kept for payment providers that sign their webhook calls
+app.use(express.json({ verify: (req, res, buf) => { req.rawBody = buf; } }));
 
 // Initialize Supabase client
 const supabase = createClient(
@@ -21,59 +57,114 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY
 );
 
-// Initialize Twilio client
-const twilioClient = twilio(
-  process.env.TWILIO_ACCOUNT_SID,
-  process.env.TWILIO_AUTH_TOKEN
-);
+// SMS and email provider (see notifications.js)
+const notifications = createNotificationProvider();
 
-// Initialize email transporter
-const emailTransporter = nodemailer.createTransporter({
-  host: process.env.EMAIL_HOST,
-  port: process.env.EMAIL_PORT,
-  secure: false,
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASS,
-  },
-});
+// Payment provider for deposits (see payments.js)
+const payments = createPaymentProvider();
+
+// Keep a copy of a message to a guest on their reservation, so staff can see what the guest was told.
+// `log` is { reservationId, event }; a failure to log never stops the message itself.
+async function logGuestMessage(log, entry) {
+  try {
+    const { error } = await supabase
+      .from('reservation_messages')
+      .insert([{ reservation_id: log.reservationId, event: log.event, ...entry }]);
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error logging guest message:', error);
+  }
+}
 
 // Helper function to send SMS
-async function sendSMS(phoneNumber, message) {
+async function sendSMS(phoneNumber, message, log) {
+  let status = 'sent';
   try {
-    if (!process.env.TWILIO_ACCOUNT_SID) {
-      console.log('SMS not configured, skipping:', message);
-      return;
-    }
+    await notifications.sendSMS(phoneNumber, message);
+  } catch (error) {
+    status = 'failed';
+    console.error('Error sending SMS:', error);
+  }
+  
+  if (log) {
+    await logGuestMessage(log, { channel: 'sms', recipient: phoneNumber, subject: null, message, status });
+  }
+}
+
+// Helper function to send email, optionally with attachments such as a calendar invite
+async function sendEmail(email, subject, message, log, attachments = []) {
+  let status = 'sent';
+  try {
+    await notifications.sendEmail(email, subject, message, attachments);
+  } catch (error) {
+    status = 'failed';
+    console.error('Error sending email:', error);
+  }
+  
+  if (log) {
+    await logGuestMessage(log, { channel: 'email', recipient: email, subject, message, status });
+  }
+}
+
+// Send a message to the guest of a reservation by SMS and/or email, whichever they gave, and log
+// it on the reservation under `event` (e.g. 'reminder'). Attachments only go with the email.
+async function notifyGuest(reservation, subject, message, event, attachments = []) {
+  const log = { reservationId: reservation.id, event };
+  
+  if (reservation.customer_phone) {
+    await sendSMS(reservation.customer_phone, message, log);
+  }
+  
+  if (reservation.customer_email) {
+    await sendEmail(reservation.customer_email, subject, message, log, attachments);
+  }
+}
+
+// Calendar invite for a reservation as an email attachment. REQUEST adds or updates the event in the
+// guest's calendar, CANCEL removes it. Without an invite the message still goes out.
+async function getCalendarInviteAttachments(reservation, method = 'REQUEST') {
+  if (!reservation.customer_email) return [];
+  
+  try {
+    const { data, error } = await supabase
+      .from('restaurant_settings')
+      .select('setting_key, setting_value');
     
-    await twilioClient.messages.create({
-      body: message,
-      from: process.env.TWILIO_PHONE_NUMBER,
-      to: phoneNumber
+    if (error) throw error;
+    
+    const content = buildCalendarInvite(reservation, {
+      method,
+      restaurant: parseRestaurantDetails(data),
+      timeZone: parseBookingRules(data).timeZone,
+      manageUrl: await getManageReservationUrl(reservation),
+      organizerEmail: process.env.EMAIL_USER
     });
-    console.log('SMS sent successfully');
+    return [{ filename: CALENDAR_INVITE_FILENAME, content, contentType: `text/calendar; charset=utf-8; method=${method}` }];
   } catch (error) {
-    console.error('Error sending SMS:', error);
+    console.error('Error creating calendar invite:', error);
+    return [];
   }
 }
 
-// Helper function to send email
-async function sendEmail(email, subject, message) {
+// Staff-only routes need the session of a staff member signed in with their Supabase account
+// (see "Staff accounts" in the README); the dashboard sends it as a bearer token.
+async function requireStaff(req, res, next) {
+  const [scheme, accessToken] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !accessToken) {
+    return res.status(401).json({ error: 'Staff sign-in required' });
+  }
+  
   try {
-    if (!process.env.EMAIL_USER) {
-      console.log('Email not configured, skipping:', message);
-      return;
+    const { data, error } = await supabase.auth.getUser(accessToken);
+    if (error || !data.user) {
+      return res.status(401).json({ error: 'Staff sign-in required' });
     }
     
-    await emailTransporter.sendMail({
-      from: process.env.EMAIL_USER,
-      to: email,
-      subject: subject,
-      text: message
-    });
-    console.log('Email sent successfully');
+    req.staff = data.user;
+    next();
   } catch (error) {
-    console.error('Error sending email:', error);
+    res.status(500).json({ error: error.message });
   }
 }
 
@@ -95,7 +186,7 @@ app.get('/api/tables', async (req, res) => {
 });
 
 // Get all reservations
-app.get('/api/reservations', async (req, res) => {
+app.get('/api/reservations', requireStaff, async (req, res) => {
   try {
     const { date, status } = req.query;
     let query = supabase
@@ -129,7 +220,7 @@ app.get('/api/reservations', async (req, res) => {
 });
 
 // Get reservations for a specific table
-app.get('/api/tables/:tableId/reservations', async (req, res) => {
+app.get('/api/tables/:tableId/reservations', requireStaff, async (req, res) => {
   try {
     const { tableId } = req.params;
     const { date } = req.query;
@@ -154,144 +245,1223 @@ app.get('/api/tables/:tableId/reservations', async (req, res) => {
   }
 });
 
-// Configuration for reservation duration and buffer
-const RESERVATION_DURATION_HOURS = 2; // Standard reservation duration
-const BUFFER_MINUTES = 15; // Buffer time before and after reservation
+// Load the booking rules (opening hours, duration, advance booking) from restaurant_settings,
+// together with the upcoming closures and special hours
+async function getBookingRules() {
+  const { data, error } = await supabase
+    .from('restaurant_settings')
+    .select('setting_key, setting_value');
+  
+  if (error) throw error;
+  
+  // "Today" on the restaurant's clock, the server itself usually runs in UTC
+  const { timeZone } = parseBookingRules(data);
+  const { data: closures, error: closuresError } = await supabase
+    .from('closures')
+    .select('*')
+    .gte('date', getRestaurantToday(timeZone));
+  
+  if (closuresError) throw closuresError;
+  return parseBookingRules(data, closures);
+}
 
-// Helper function to check time overlap
-function hasTimeOverlap(startTime1, endTime1, startTime2, endTime2) {
-  return startTime1 < endTime2 && startTime2 < endTime1;
+// Seating areas, used to leave out tables in areas that are closed (e.g. the terrace in winter)
+async function getAreas() {
+  const { data, error } = await supabase
+    .from('areas')
+    .select('*');
+  
+  if (error) throw error;
+  return data || [];
 }
 
-// Helper function to add minutes to time string
-function addMinutesToTime(timeStr, minutes) {
-  const [hours, mins] = timeStr.split(':').map(Number);
-  const totalMinutes = hours * 60 + mins + minutes;
-  const newHours = Math.floor(totalMinutes / 60);
-  const newMins = totalMinutes % 60;
-  return `${newHours.toString().padStart(2, '0')}:${newMins.toString().padStart(2, '0')}`;
+// Move reservations to the tables of an optimised table plan. Returns the moved reservations, so
+// their guests can be told about their new table once the booking that needed the room is done.
+async function applyTableMoves(moves) {
+  const moved = [];
+  for (const move of moves) {
+    const { data, error } = await supabase
+      .from('reservations')
+      .update({ table_id: move.tableIds[0], combined_table_ids: move.tableIds.slice(1) })
+      .eq('id', move.reservation.id)
+      .select(RESERVATION_WITH_TABLE)
+      .single();
+    
+    if (error) throw error;
+    moved.push(data);
+  }
+  return moved;
+}
+
+// Tell the guests of reservations moved by a re-plan about their new table, like a move by staff.
+// The booking that caused the move already went through, so a failed message is only logged.
+async function notifyTableMoves(moved) {
+  if (moved.length === 0) return;
+  
+  try {
+    const { guestNotifications } = await getBookingRules();
+    if (!guestNotifications.table_changed) return;
+    
+    for (const reservation of moved) {
+      await notifyReservationChange(reservation, ['table_changed']);
+    }
+  } catch (error) {
+    console.error('Error notifying moved reservations:', error);
+  }
+}
+
+// Reliability profile of a guest, found by normalised phone number or email
+async function getGuestProfile(phone, email) {
+  const keys = [['phone', normalizePhone(phone)], ['email', normalizeEmail(email)]];
+  
+  for (const [column, value] of keys) {
+    if (!value) continue;
+    
+    const { data, error } = await supabase
+      .from('guest_profiles')
+      .select('*')
+      .eq(column, value)
+      .maybeSingle();
+    
+    if (error) throw error;
+    if (data) return data;
+  }
+  return null;
+}
+
+// Secret token of a reservation's manage link. Tokens are kept in reservation_tokens, which only
+// the server can read, so the public key can't be used to find or change someone's booking.
+async function getManageToken(reservationId) {
+  const { data, error } = await supabase
+    .from('reservation_tokens')
+    .select('token')
+    .eq('reservation_id', reservationId)
+    .maybeSingle();
+  
+  if (error) throw error;
+  return data ? data.token : null;
+}
+
+// Give a reservation its manage token. When another request just gave it one, that token is kept.
+async function createManageToken(reservationId) {
+  const { error } = await supabase
+    .from('reservation_tokens')
+    .upsert([{ reservation_id: reservationId, token: generateManageToken() }], { onConflict: 'reservation_id', ignoreDuplicates: true });
+  
+  if (error) throw error;
+  return getManageToken(reservationId);
+}
+
+// Reservation behind a manage link, or null when the token is unknown
+async function findReservationByToken(token) {
+  const { data: tokenRow, error: tokenError } = await supabase
+    .from('reservation_tokens')
+    .select('reservation_id')
+    .eq('token', token)
+    .maybeSingle();
+  
+  if (tokenError) throw tokenError;
+  if (!tokenRow) return null;
+  
+  const { data, error } = await supabase
+    .from('reservations')
+    .select(RESERVATION_WITH_TABLE)
+    .eq('id', tokenRow.reservation_id)
+    .maybeSingle();
+  
+  if (error) throw error;
+  return data;
+}
+
+// Public link where the guest can view, change or cancel their reservation. A reservation without a
+// token yet, e.g. one entered in Supabase directly, gets one here, so a message never links nowhere.
+async function getManageReservationUrl(reservation) {
+  const token = reservation.manage_token || await getManageToken(reservation.id) || await createManageToken(reservation.id);
+  return `${process.env.APP_URL || 'http://localhost:3000'}${getManageReservationPath(token)}`;
+}
+
+// Bookings for the same date are handled one at a time, so the availability re-check and the
+// insert of one booking can't interleave with another booking for that date. This holds within
+// one server process; run a single instance of the API.
+const bookingQueues = new Map();
+
+function withDateLock(date, task) {
+  const previous = bookingQueues.get(date) || Promise.resolve();
+  const current = previous.catch(() => {}).then(task);
+  bookingQueues.set(date, current);
+  
+  const release = () => {
+    if (bookingQueues.get(date) === current) bookingQueues.delete(date);
+  };
+  current.then(release, release);
+  return current;
+}
+
+// Reservations on a date that hold a table, with what the availability checks need. A reservation
+// that is being changed is left out with `excludeId`, so it doesn't conflict with itself.
+async function getActiveReservations(date, excludeId = null) {
+  let query = supabase
+    .from('reservations')
+    .select('id, table_id, combined_table_ids, time, guests, status, duration_hours, buffer_minutes, preferred_area_id, allow_area_fallback, needs, table_locked')
+    .eq('date', date)
+    .in('status', ACTIVE_RESERVATION_STATUSES);
+  
+  if (excludeId) {
+    query = query.neq('id', excludeId);
+  }
+  
+  const { data, error } = await query;
+  
+  if (error) throw error;
+  return data || [];
+}
+
+// First reservation that holds one of `tableIds` around `time`
+function findTablesConflict(tableIds, reservations, time, rules) {
+  return tableIds
+    .map(tableId => findConflictingReservation(tableId, reservations, time, rules))
+    .find(Boolean);
+}
+
+// Shown when another guest took the last table or kitchen capacity a moment earlier
+const SLOT_TAKEN_MESSAGE = 'Dit tijdstip is zojuist door een andere gast geboekt. Kies een ander tijdstip.';
+
+// Shown when the deposit payment didn't go through; the table is released again
+const PAYMENT_FAILED_MESSAGE = 'De betaling van de aanbetaling is niet gelukt. Je reservering is niet geplaatst, probeer het opnieuw.';
+
+// Shown when the deposit for a change through the manage link didn't go through; like an unpaid new
+// booking, the reservation no longer holds its table
+const CHANGE_PAYMENT_FAILED_MESSAGE = 'De betaling van de aanbetaling is niet gelukt, daardoor is je reservering vervallen. Neem contact met ons op of reserveer opnieuw.';
+
+// Shown to guests whose online booking has been blocked
+const GUEST_BLOCKED_MESSAGE = 'Online reserveren is voor jou helaas niet mogelijk. Neem telefonisch contact met ons op.';
+
+// How long a booking holds its table while the guest pays the deposit
+const PAYMENT_HOLD_MINUTES = 15;
+
+const RESERVATION_WITH_TABLE = `
+  *,
+  tables (
+    id,
+    name,
+    seats
+  )
+`;
+
+// Time until which a pending request holds its table
+function getApprovalHoldExpiry(bookingRules) {
+  return new Date(Date.now() + bookingRules.approval.holdHours * 60 * 60 * 1000).toISOString();
+}
+
+// Tell the guest their booking is confirmed, or that their request is waiting for approval
+async function notifyBookingReceived(reservation) {
+  const { guests, date } = reservation;
+  const time = reservation.time.slice(0, 5);
+  const manageUrl = await getManageReservationUrl(reservation);
+  const deposit = reservation.deposit_status === 'paid'
+    ? ` Je aanbetaling van €${Number(reservation.deposit_amount).toFixed(2)} is ontvangen.`
+    : '';
+  const policy = reservation.cancellation_policy
+    ? `\n\n${describeCancellationPolicy(reservation.cancellation_policy)}`
+    : '';
+  
+  if (reservation.status === 'pending') {
+    await notifyGuest(
+      reservation,
+      'Reserveringsaanvraag ontvangen',
+      `We hebben je aanvraag voor ${guests} gasten op ${date} om ${time} ontvangen.${deposit} De tafel is voor je vastgehouden; je hoort zo snel mogelijk of we de reservering kunnen bevestigen. Bekijk je aanvraag: ${manageUrl}${policy}`,
+      'request_received'
+    );
+    return;
+  }
+  
+  const log = { reservationId: reservation.id, event: 'booking_confirmed' };
+  if (reservation.customer_phone) {
+    await sendSMS(reservation.customer_phone, `Reservation confirmed for ${guests} guests at ${time} on ${date}.${deposit} Manage your booking: ${manageUrl}`, log);
+  }
+  
+  if (reservation.customer_email) {
+    await sendEmail(
+      reservation.customer_email,
+      'Reservation Confirmation',
+      `Your reservation has been confirmed for ${guests} guests at ${time} on ${date}.${deposit} We look forward to serving you!\n\nNeed to change or cancel? ${manageUrl}${policy}`,
+      log,
+      await getCalendarInviteAttachments(reservation)
+    );
+  }
+}
+
+// Record the outcome of a deposit payment. A paid booking moves on to approval or confirmation,
+// a failed one releases its table. Returns null when the booking was no longer awaiting payment.
+async function settleDepositPayment(reservation, payment) {
+  let update = { payment_reference: payment.id };
+  
+  if (payment.status === 'paid') {
+    const bookingRules = await getBookingRules();
+    const needsApproval = requiresApproval(bookingRules, reservation.date, reservation.guests);
+    update = {
+      ...update,
+      status: needsApproval ? 'pending' : 'confirmed',
+      deposit_status: 'paid',
+      hold_expires_at: needsApproval ? getApprovalHoldExpiry(bookingRules) : null
+    };
+  } else if (payment.status === 'failed') {
+    update = { ...update, status: 'cancelled', deposit_status: 'failed', hold_expires_at: null };
+  }
+  
+  const { data, error } = await supabase
+    .from('reservations')
+    .update(update)
+    .eq('id', reservation.id)
+    .eq('status', 'awaiting_payment')
+    .select(RESERVATION_WITH_TABLE)
+    .maybeSingle();
+  
+  if (error) throw error;
+  return data;
+}
+
+// Pay a reservation's deposit back through the payment provider
+async function refundDeposit(reservation) {
+  await payments.refundPayment(reservation.payment_reference, Number(reservation.deposit_amount));
+  
+  const { data, error } = await supabase
+    .from('reservations')
+    .update({ deposit_status: 'refunded' })
+    .eq('id', reservation.id)
+    .select(RESERVATION_WITH_TABLE)
+    .single();
+  
+  if (error) throw error;
+  return data;
+}
+
+// Start the deposit payment of a booking that is awaiting payment, and settle it right away when the
+// provider already knows the outcome. Returns the settled booking (null when it was no longer awaiting
+// payment) and the checkout URL when the guest still has to pay on the provider's page.
+async function startDepositPayment(reservation, description) {
+  let payment;
+  try {
+    payment = await payments.createPayment({
+      amount: Number(reservation.deposit_amount),
+      description,
+      reference: reservation.id,
+      redirectUrl: await getManageReservationUrl(reservation)
+    });
+  } catch (paymentError) {
+    console.error('Error creating deposit payment:', paymentError);
+    payment = { id: null, status: 'failed' };
+  }
+  
+  return { settled: await settleDepositPayment(reservation, payment), checkoutUrl: payment.checkoutUrl };
 }
 
 // Create a new reservation
 app.post('/api/reservations', async (req, res) => {
   try {
-    const { table_id, customer_name, customer_email, customer_phone, guests, date, time, notes } = req.body;
+    const { table_id, combined_table_ids, customer_name, customer_email, customer_phone, guests, date, time, notes, preferred_area_id, allow_area_fallback, needs, allergens, diets, policy_accepted, expected_deposit } = req.body;
     
     // Validate required fields
     if (!table_id || !customer_name || !guests || !date || !time) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
     
-    // Calculate reservation time slots with buffer
-    const bufferStartTime = addMinutesToTime(time, -BUFFER_MINUTES);
-    const reservationEndTime = addMinutesToTime(time, RESERVATION_DURATION_HOURS * 60);
-    const bufferEndTime = addMinutesToTime(reservationEndTime, BUFFER_MINUTES);
+    // Validate the advance booking window
+    const bookingRules = getPartyBookingRules(await getBookingRules(), date, guests);
+    const bookingWindowError = getBookingWindowError(bookingRules, date, time, getRestaurantNow(bookingRules.timeZone));
+    if (bookingWindowError) {
+      return res.status(400).json({ error: bookingWindowError });
+    }
     
-    // Check if table is available at the requested time (with overlap check)
-    const { data: existingReservations, error: checkError } = await supabase
-      .from('reservations')
-      .select('time, status, duration_hours, buffer_minutes')
-      .eq('table_id', table_id)
-      .eq('date', date)
-      .in('status', ['confirmed', 'arrived', 'in_progress']);
+    // Validate the opening hours and closures for the date
+    const closureError = getClosureError(bookingRules, date, time);
+    if (closureError) {
+      return res.status(400).json({ error: closureError });
+    }
     
-    if (checkError) throw checkError;
+    // Guests have to accept the cancellation policy when it charges late cancellations or no-shows
+    const cancellationPolicy = hasCancellationFees(bookingRules.cancellation) ? bookingRules.cancellation : null;
+    if (cancellationPolicy && !policy_accepted) {
+      return res.status(400).json({ error: 'Ga akkoord met het annuleringsbeleid om te reserveren' });
+    }
+    
+    // Guests flagged after repeated no-shows can be blocked from booking online
+    const guestProfile = await getGuestProfile(customer_phone, customer_email);
+    if (guestProfile?.blocked) {
+      return res.status(403).json({ error: GUEST_BLOCKED_MESSAGE, code: 'GUEST_BLOCKED' });
+    }
+    
+    // Deposit per guest for large groups and special dates, or for guests flagged to always pay one
+    const depositAmount = getDepositAmount(bookingRules, date, parseInt(guests), !!guestProfile?.require_deposit);
     
-    // Check for time overlaps
-    for (const existingReservation of existingReservations) {
-      const existingTime = existingReservation.time;
-      const existingDuration = existingReservation.duration_hours || RESERVATION_DURATION_HOURS;
-      const existingBuffer = existingReservation.buffer_minutes || BUFFER_MINUTES;
+    // The guest has to have seen the amount before paying it
+    if (depositAmount > 0 && Number(expected_deposit || 0) !== depositAmount) {
+      return res.status(409).json({
+        error: `Voor deze reservering vragen we een aanbetaling van €${depositAmount.toFixed(2)}. Bevestig je reservering opnieuw om te betalen.`,
+        code: 'DEPOSIT_REQUIRED',
+        deposit_amount: depositAmount
+      });
+    }
+    
+    let movedReservations = [];
+    let data = await withDateLock(date, async () => {
+      // Check if every table is available at the requested time (with overlap check)
+      const { data: existingReservations, error: checkError } = await supabase
+        .from('reservations')
+        .select('id, table_id, combined_table_ids, time, guests, status, duration_hours, buffer_minutes, preferred_area_id, allow_area_fallback, needs, table_locked')
+        .eq('date', date)
+        .in('status', ACTIVE_RESERVATION_STATUSES);
+      
+      if (checkError) throw checkError;
       
-      const existingBufferStart = addMinutesToTime(existingTime, -existingBuffer);
-      const existingReservationEnd = addMinutesToTime(existingTime, existingDuration * 60);
-      const existingBufferEnd = addMinutesToTime(existingReservationEnd, existingBuffer);
+      const { data: allTables, error: tablesError } = await supabase
+        .from('tables')
+        .select('*');
       
-      if (hasTimeOverlap(bufferStartTime, bufferEndTime, existingBufferStart, existingBufferEnd)) {
-        return res.status(400).json({ 
-          error: `Tafel is niet beschikbaar van ${bufferStartTime} tot ${bufferEndTime}. Er is al een reservering van ${existingTime} tot ${existingReservationEnd}.` 
+      if (tablesError) throw tablesError;
+      
+      let tableIds = [table_id, ...(combined_table_ids || [])];
+      const areas = await getAreas();
+      
+      // Tables in a closed area can't be booked
+      const requestedTables = allTables.filter(table => tableIds.includes(table.id));
+      const openTables = getOpenTables(requestedTables, areas, date);
+      if (openTables.length < tableIds.length) {
+        return res.status(400).json({ error: 'Deze tafel is op deze datum niet in gebruik' });
+      }
+      
+      // Tables must have the attributes the guest needs (step-free, high chair, ...)
+      if (filterTablesByNeeds(openTables, needs).length < tableIds.length) {
+        return res.status(400).json({ error: 'Deze tafel past niet bij de opgegeven wensen' });
+      }
+      
+      // The tables must seat the party, and combined tables must be joinable into one
+      const seats = openTables.reduce((total, table) => total + table.seats, 0);
+      if (seats < parseInt(guests)) {
+        return res.status(400).json({ error: 'Deze tafels hebben te weinig plaatsen voor dit aantal gasten' });
+      }
+      if (!areTablesJoined(openTables)) {
+        return res.status(400).json({ error: 'Deze tafels kunnen niet worden samengevoegd' });
+      }
+      
+      // Keep large tables for groups: minimum party size and the peak-time oversize limit
+      if (!isTableSizeAllowed(openTables, parseInt(guests), bookingRules, time)) {
+        return res.status(400).json({ error: 'Deze tafel is niet beschikbaar voor dit aantal gasten' });
+      }
+      
+      // Check the kitchen pacing limits for the arrival interval
+      if (isPacingLimitReached(bookingRules, date, existingReservations, time, parseInt(guests))) {
+        return res.status(409).json({ error: 'De keuken zit rond dit tijdstip al vol. Kies een andere tijd.', code: 'SLOT_TAKEN' });
+      }
+      
+      // A requested table that is taken by now may still be freed by re-planning the
+      // unseated reservations; otherwise the slot was just taken by another guest
+      const conflict = tableIds
+        .map(tableId => findConflictingReservation(tableId, existingReservations, time, bookingRules))
+        .find(Boolean);
+      if (conflict) {
+        const plan = optimizeTableAssignments(allTables, areas, existingReservations, bookingRules, date, {
+          table_id: '',
+          time,
+          guests: parseInt(guests),
+          duration_hours: bookingRules.durationHours,
+          buffer_minutes: bookingRules.bufferMinutes,
+          needs: needs || [],
+          preferred_area_id: preferred_area_id || null,
+          allow_area_fallback: !!allow_area_fallback
         });
+        if (!plan?.bookingTableIds) {
+          return res.status(409).json({ error: SLOT_TAKEN_MESSAGE, code: 'SLOT_TAKEN' });
+        }
+        
+        movedReservations = await applyTableMoves(plan.moves);
+        tableIds = plan.bookingTableIds;
+      }
+      
+      // Large parties and busy nights wait for the owner's approval, holding the table meanwhile.
+      // A booking with a deposit holds its table until the payment is done and is settled after that.
+      const needsApproval = requiresApproval(bookingRules, date, parseInt(guests));
+      const status = depositAmount > 0 ? 'awaiting_payment' : needsApproval ? 'pending' : 'confirmed';
+      
+      // Create reservation
+      const { data: reservation, error } = await supabase
+        .from('reservations')
+        .insert([{
+          table_id: tableIds[0],
+          combined_table_ids: tableIds.slice(1),
+          customer_name,
+          customer_email,
+          customer_phone,
+          guests,
+          date,
+          time,
+          duration_hours: bookingRules.durationHours,
+          buffer_minutes: bookingRules.bufferMinutes,
+          notes,
+          preferred_area_id: preferred_area_id || null,
+          allow_area_fallback: !!allow_area_fallback,
+          needs: needs || [],
+          ...sanitizeDietaryDeclaration({ allergens, diets }),
+          status,
+          hold_expires_at: status === 'awaiting_payment'
+            ? new Date(Date.now() + PAYMENT_HOLD_MINUTES * 60 * 1000).toISOString()
+            : status === 'pending' ? getApprovalHoldExpiry(bookingRules) : null,
+          deposit_amount: depositAmount || null,
+          deposit_status: depositAmount > 0 ? 'open' : null,
+          cancellation_policy: cancellationPolicy,
+          policy_accepted_at: cancellationPolicy ? new Date().toISOString() : null
+        }])
+        .select(RESERVATION_WITH_TABLE)
+        .single();
+      
+      if (error) throw error;
+      
+      // Only the guest who booked gets the token, in this response and in their messages
+      return { ...reservation, manage_token: await createManageToken(reservation.id) };
+    });
+    
+    // The request was already answered inside the lock (validation error or slot taken)
+    if (res.headersSent) return;
+    
+    await notifyTableMoves(movedReservations);
+    
+    // Take the deposit; the booking is only confirmed once the payment succeeded
+    if (data.status === 'awaiting_payment') {
+      const { settled, checkoutUrl } = await startDepositPayment(data, `Aanbetaling reservering ${date} ${time} (${guests} gasten)`);
+      if (!settled || settled.status === 'cancelled') {
+        return res.status(402).json({ error: PAYMENT_FAILED_MESSAGE, code: 'PAYMENT_FAILED' });
+      }
+      
+      // The guest still has to pay at the provider; the webhook settles the booking afterwards
+      data = { ...settled, manage_token: data.manage_token };
+      if (settled.status === 'awaiting_payment') {
+        return res.status(201).json({ ...data, checkout_url: checkoutUrl });
       }
     }
     
-    // Create reservation
-    const { data, error } = await supabase
+    await notifyBookingReceived(data);
+    res.status(201).json(data);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// A declined or expired request gets its deposit back. Returns the sentence for the guest's
+// message; when the refund fails staff can still refund it from the dashboard.
+async function refundReleasedDeposit(reservation) {
+  if (reservation.deposit_status !== 'paid') return '';
+  
+  try {
+    await refundDeposit(reservation);
+    return ` Je aanbetaling van €${Number(reservation.deposit_amount).toFixed(2)} wordt teruggestort.`;
+  } catch (error) {
+    console.error('Error refunding deposit:', error);
+    return '';
+  }
+}
+
+// Payment provider callback: look up the payment's status and settle the booking it belongs to. The
+// call only names a payment; whether it was paid is always asked to the provider.
+app.post('/api/payments/webhook', async (req, res) => {
+  try {
+    if (!payments.verifyWebhook(req.headers, req.rawBody)) {
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+    
+    const payment = req.body.id ? await payments.getPayment(req.body.id) : null;
+    if (!payment) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+    
+    const { data: reservation, error } = await supabase
       .from('reservations')
-      .insert([{
-        table_id,
-        customer_name,
-        customer_email,
-        customer_phone,
-        guests,
-        date,
-        time,
-        duration_hours: RESERVATION_DURATION_HOURS,
-        buffer_minutes: BUFFER_MINUTES,
-        notes,
-        status: 'confirmed'
-      }])
-      .select(`
-        *,
-        tables (
-          id,
-          name,
-          seats
-        )
-      `)
+      .select('*')
+      .eq('payment_reference', payment.id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    if (!reservation) {
+      return res.status(404).json({ error: 'Reservation not found' });
+    }
+    
+    // The payment has to be this reservation's deposit, for the full amount
+    if (payment.reference !== reservation.id || Number(payment.amount) !== Number(reservation.deposit_amount)) {
+      return res.status(400).json({ error: 'Payment does not match the reservation' });
+    }
+    
+    const settled = await settleDepositPayment(reservation, payment);
+    if (settled && (settled.status === 'pending' || settled.status === 'confirmed')) {
+      await notifyBookingReceived(settled);
+    }
+    
+    res.json({ received: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Refund a paid deposit to the guest, or deduct it from the final bill
+app.post('/api/reservations/:id/deposit', requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { action } = req.body;
+    
+    if (action !== 'refund' && action !== 'deduct') {
+      return res.status(400).json({ error: 'Action must be refund or deduct' });
+    }
+    
+    const { data: reservation, error } = await supabase
+      .from('reservations')
+      .select('*')
+      .eq('id', id)
       .single();
     
     if (error) throw error;
     
-    // Send confirmation notifications
-    if (customer_phone) {
-      await sendSMS(customer_phone, `Reservation confirmed for ${guests} guests at ${time} on ${date}. Thank you!`);
+    if (reservation.deposit_status !== 'paid') {
+      return res.status(409).json({ error: 'Deze aanbetaling is al terugbetaald, verrekend of niet betaald' });
     }
     
-    if (customer_email) {
-      await sendEmail(
-        customer_email,
-        'Reservation Confirmation',
-        `Your reservation has been confirmed for ${guests} guests at ${time} on ${date}. We look forward to serving you!`
+    if (action === 'refund') {
+      const data = await refundDeposit(reservation);
+      await notifyGuest(
+        data,
+        'Aanbetaling teruggestort',
+        `Je aanbetaling van €${Number(data.deposit_amount).toFixed(2)} voor je reservering op ${data.date} om ${data.time.slice(0, 5)} wordt teruggestort.`,
+        'deposit_refunded'
       );
+      return res.json(data);
     }
     
-    res.status(201).json(data);
+    const { data, error: updateError } = await supabase
+      .from('reservations')
+      .update({ deposit_status: 'deducted' })
+      .eq('id', id)
+      .eq('deposit_status', 'paid')
+      .select(RESERVATION_WITH_TABLE)
+      .single();
+    
+    if (updateError) throw updateError;
+    res.json(data);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Update reservation status
-app.patch('/api/reservations/:id', async (req, res) => {
+// Approve or decline a reservation request that is waiting for the owner, and tell the guest
+app.post('/api/reservations/:id/decision', requireStaff, async (req, res) => {
   try {
     const { id } = req.params;
-    const { status, customer_name, customer_email, customer_phone, guests, date, time, notes } = req.body;
+    const { decision, message } = req.body;
     
-    const updateData = {};
-    if (status !== undefined) updateData.status = status;
-    if (customer_name !== undefined) updateData.customer_name = customer_name;
-    if (customer_email !== undefined) updateData.customer_email = customer_email;
-    if (customer_phone !== undefined) updateData.customer_phone = customer_phone;
-    if (guests !== undefined) updateData.guests = guests;
-    if (date !== undefined) updateData.date = date;
-    if (time !== undefined) updateData.time = time;
-    if (notes !== undefined) updateData.notes = notes;
+    if (decision !== 'approve' && decision !== 'decline') {
+      return res.status(400).json({ error: 'Decision must be approve or decline' });
+    }
+    
+    const { data, error } = await supabase
+      .from('reservations')
+      .update({
+        status: decision === 'approve' ? 'confirmed' : 'declined',
+        decision_message: message || null,
+        hold_expires_at: null
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+    
+    if (error) throw error;
+    
+    if (!data) {
+      return res.status(409).json({ error: 'Deze aanvraag is al afgehandeld of verlopen' });
+    }
+    
+    const note = message ? `\n\n${message}` : '';
+    if (decision === 'approve') {
+      await notifyGuest(
+        data,
+        'Reservering bevestigd',
+        `Je reservering voor ${data.guests} gasten op ${data.date} om ${data.time.slice(0, 5)} is bevestigd.${note}\n\nWijzigen of annuleren: ${await getManageReservationUrl(data)}`,
+        'request_approved',
+        await getCalendarInviteAttachments(data)
+      );
+    } else {
+      const refund = await refundReleasedDeposit(data);
+      await notifyGuest(
+        data,
+        'Reservering niet mogelijk',
+        `Helaas kunnen we je aanvraag voor ${data.guests} gasten op ${data.date} om ${data.time.slice(0, 5)} niet bevestigen.${refund}${note}`,
+        'request_declined'
+      );
+    }
+    
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Release the tables of reservation requests that weren't decided in time, and tell the guest.
+// Bookings whose deposit checkout was abandoned are released as well.
+async function expirePendingReservations() {
+  try {
+    const { error: checkoutError } = await supabase
+      .from('reservations')
+      .update({ status: 'expired', deposit_status: 'failed', hold_expires_at: null })
+      .eq('status', 'awaiting_payment')
+      .lt('hold_expires_at', new Date().toISOString());
+    
+    if (checkoutError) throw checkoutError;
+    
+    const { data, error } = await supabase
+      .from('reservations')
+      .update({ status: 'expired', hold_expires_at: null })
+      .eq('status', 'pending')
+      .lt('hold_expires_at', new Date().toISOString())
+      .select();
+    
+    if (error) throw error;
+    
+    for (const reservation of data || []) {
+      const refund = await refundReleasedDeposit(reservation);
+      await notifyGuest(
+        reservation,
+        'Reserveringsaanvraag verlopen',
+        `We hebben je aanvraag voor ${reservation.guests} gasten op ${reservation.date} om ${reservation.time.slice(0, 5)} helaas niet op tijd kunnen bevestigen. De aanvraag is vervallen.${refund} Neem gerust contact met ons op of reserveer een ander moment.`,
+        'request_expired'
+      );
+    }
+  } catch (error) {
+    console.error('Error expiring pending reservations:', error);
+  }
+}
+
+// Send the reminders that are due, each with links to confirm or cancel. Guests who already
+// confirmed they're coming don't get further reminders.
+async function sendDueReminders() {
+  try {
+    const bookingRules = await getBookingRules();
+    const now = getRestaurantNow(bookingRules.timeZone);
+    const maxOffsetHours = Math.max(0, ...(bookingRules.reminders.offsetsHours || []));
     
     const { data, error } = await supabase
+      .from('reservations')
+      .select('*')
+      .eq('status', 'confirmed')
+      .is('attendance_confirmed_at', null)
+      .gte('date', now.date)
+      .lte('date', addDaysToDateKey(now.date, Math.ceil(maxOffsetHours / 24) + 1));
+    
+    if (error) throw error;
+    
+    for (const reservation of data || []) {
+      const bookedAt = getRestaurantNow(bookingRules.timeZone, new Date(reservation.created_at));
+      const due = getDueReminderOffsets(bookingRules, reservation, now, bookedAt);
+      if (due.length === 0) continue;
+      
+      // Marked as sent first, so a slow SMS or email can't lead to a second reminder
+      const { error: updateError } = await supabase
+        .from('reservations')
+        .update({ reminders_sent: [...(reservation.reminders_sent || []), ...due] })
+        .eq('id', reservation.id);
+      
+      if (updateError) throw updateError;
+      
+      const manageUrl = await getManageReservationUrl(reservation);
+      await notifyGuest(
+        reservation,
+        'Herinnering aan je reservering',
+        `Herinnering: je hebt een reservering voor ${reservation.guests} gasten op ${reservation.date} om ${reservation.time.slice(0, 5)}.\n\nKom je? Bevestig hier: ${manageUrl}?antwoord=ja\nKun je niet komen? Annuleer hier: ${manageUrl}?antwoord=nee`,
+        'reminder'
+      );
+    }
+  } catch (error) {
+    console.error('Error sending reminders:', error);
+  }
+}
+
+// Tell the guest about a change staff made to their reservation, in one message. A new time also
+// mentions the new table, so a move that changes both isn't sent twice.
+async function notifyReservationChange(reservation, events) {
+  if (events.length === 0) return;
+  
+  const { guests, date } = reservation;
+  const time = reservation.time.slice(0, 5);
+  const manageUrl = await getManageReservationUrl(reservation);
+  const fee = reservation.cancellation_fee > 0
+    ? ` Volgens het annuleringsbeleid brengen we €${Number(reservation.cancellation_fee).toFixed(2)} in rekening.`
+    : '';
+  
+  let tableNames = '';
+  if (events.includes('table_changed')) {
+    const tableIds = [reservation.table_id, ...(reservation.combined_table_ids || [])].filter(Boolean);
+    const { data: tables, error } = await supabase
+      .from('tables')
+      .select('id, name')
+      .in('id', tableIds);
+    
+    if (error) throw error;
+    tableNames = tableIds.map(tableId => (tables || []).find(table => table.id === tableId)?.name).filter(Boolean).join(' + ');
+  }
+  const table = tableNames ? ` Je zit aan ${tableNames}.` : '';
+  
+  if (events.includes('cancelled')) {
+    await notifyGuest(
+      reservation,
+      'Reservering geannuleerd',
+      `Je reservering voor ${guests} gasten op ${date} om ${time} is geannuleerd.${fee} Neem gerust contact met ons op als je vragen hebt.`,
+      'cancelled',
+      await getCalendarInviteAttachments(reservation, 'CANCEL')
+    );
+  } else if (events.includes('no_show')) {
+    await notifyGuest(
+      reservation,
+      'We hebben je gemist',
+      `We hebben je helaas niet gezien bij je reservering voor ${guests} gasten op ${date} om ${time}. De reservering is als niet verschenen geregistreerd.${fee}`,
+      'no_show'
+    );
+  } else if (events.includes('confirmed')) {
+    await notifyGuest(
+      reservation,
+      'Reservering bevestigd',
+      `Je reservering voor ${guests} gasten op ${date} om ${time} is bevestigd.\n\nWijzigen of annuleren: ${manageUrl}`,
+      'confirmed',
+      await getCalendarInviteAttachments(reservation)
+    );
+  } else if (events.includes('time_changed')) {
+    await notifyGuest(
+      reservation,
+      'Reservering gewijzigd',
+      `Je reservering voor ${guests} gasten is verplaatst naar ${date} om ${time}.${table} Komt dit niet uit? Wijzig of annuleer via ${manageUrl}`,
+      'time_changed',
+      await getCalendarInviteAttachments(reservation)
+    );
+  } else if (events.includes('table_changed')) {
+    await notifyGuest(
+      reservation,
+      'Andere tafel voor je reservering',
+      `Voor je reservering voor ${guests} gasten op ${date} om ${time} hebben we een andere tafel voor je klaargezet.${table}`,
+      'table_changed'
+    );
+  }
+}
+
+// Apply a change to a reservation: fees for cancellations and no-shows, the revision of the guest's
+// calendar event, their no-show record and, unless the guest made the change, a message to the guest
+async function updateReservation(id, changes) {
+  const { status, customer_name, customer_email, customer_phone, guests, date, time, notes, attendance_confirmed, table_id, combined_table_ids, duration_hours, buffer_minutes, hold_expires_at, deposit_amount, deposit_status, allergens, diets, changed_by } = changes;
+  
+  const updateData = {};
+  if (status !== undefined) updateData.status = status;
+  if (customer_name !== undefined) updateData.customer_name = customer_name;
+  if (customer_email !== undefined) updateData.customer_email = customer_email;
+  if (customer_phone !== undefined) updateData.customer_phone = customer_phone;
+  if (guests !== undefined) updateData.guests = guests;
+  if (date !== undefined) updateData.date = date;
+  if (time !== undefined) updateData.time = time;
+  if (notes !== undefined) updateData.notes = notes;
+  if (table_id !== undefined) updateData.table_id = table_id;
+  if (combined_table_ids !== undefined) updateData.combined_table_ids = combined_table_ids;
+  if (duration_hours !== undefined) updateData.duration_hours = duration_hours;
+  if (buffer_minutes !== undefined) updateData.buffer_minutes = buffer_minutes;
+  if (hold_expires_at !== undefined) updateData.hold_expires_at = hold_expires_at;
+  if (deposit_amount !== undefined) updateData.deposit_amount = deposit_amount;
+  if (deposit_status !== undefined) updateData.deposit_status = deposit_status;
+  if (allergens !== undefined || diets !== undefined) {
+    const declaration = sanitizeDietaryDeclaration({ allergens, diets });
+    if (allergens !== undefined) updateData.allergens = declaration.allergens;
+    if (diets !== undefined) updateData.diets = declaration.diets;
+  }
+  if (attendance_confirmed !== undefined) {
+    updateData.attendance_confirmed_at = attendance_confirmed ? new Date().toISOString() : null;
+  }
+  
+  // The reservation as it was, to charge fees and to tell the guest what changed
+  let current = null;
+  if (status !== undefined || date !== undefined || time !== undefined || table_id !== undefined || combined_table_ids !== undefined) {
+    const { data: currentData, error: currentError } = await supabase
+      .from('reservations')
+      .select('date, time, guests, status, customer_phone, customer_email, cancellation_policy, table_id, combined_table_ids, calendar_sequence')
+      .eq('id', id)
+      .single();
+    
+    if (currentError) throw currentError;
+    current = currentData;
+  }
+  
+  // Cancellations and no-shows are charged by the policy the guest accepted when booking
+  if (status === 'cancelled' || status === 'no_show') {
+    if (current.status !== status) {
+      const policy = current.cancellation_policy;
+      let fee = 0;
+      if (policy && status === 'no_show') {
+        fee = getNoShowFee(policy, current.guests);
+      } else if (policy) {
+        const { timeZone } = await getBookingRules();
+        fee = getCancellationFee(policy, current, getRestaurantNow(timeZone));
+      }
+      updateData.cancellation_fee = fee;
+      updateData.cancelled_at = new Date().toISOString();
+    }
+  } else if (status !== undefined) {
+    // Undoing a cancellation or no-show also drops its fee
+    updateData.cancellation_fee = null;
+    updateData.cancelled_at = null;
+  }
+  
+  // A new time, a cancellation or a booking that's back on updates the event in the guest's calendar
+  const events = current ? getReservationChangeEvents(current, { ...current, ...updateData }) : [];
+  if (events.some(event => event === 'cancelled' || event === 'confirmed' || event === 'time_changed')) {
+    updateData.calendar_sequence = (current.calendar_sequence || 0) + 1;
+  }
+  
+  // Remember no-shows per guest, so staff are warned when they book again. The status and the count
+  // on the guest's profile are saved in one database call, so a failure leaves both unchanged.
+  if (status !== undefined && current.status !== status && (status === 'no_show' || current.status === 'no_show')) {
+    const { error: noShowError } = await supabase.rpc('set_reservation_no_show_status', {
+      p_reservation_id: id,
+      p_status: status,
+      p_cancellation_fee: updateData.cancellation_fee,
+      p_cancelled_at: updateData.cancelled_at,
+      p_calendar_sequence: updateData.calendar_sequence ?? null,
+      p_phone: normalizePhone(customer_phone ?? current.customer_phone),
+      p_email: normalizeEmail(customer_email ?? current.customer_email),
+      p_change: status === 'no_show' ? 1 : -1
+    });
+    
+    if (noShowError) throw noShowError;
+    ['status', 'cancellation_fee', 'cancelled_at', 'calendar_sequence'].forEach(key => delete updateData[key]);
+  }
+  
+  const { data, error } = Object.keys(updateData).length > 0
+    ? await supabase
       .from('reservations')
       .update(updateData)
       .eq('id', id)
-      .select(`
-        *,
-        tables (
-          id,
-          name,
-          seats
-        )
-      `)
+      .select(RESERVATION_WITH_TABLE)
+      .single()
+    : await supabase
+      .from('reservations')
+      .select(RESERVATION_WITH_TABLE)
+      .eq('id', id)
+      .single();
+  
+  if (error) throw error;
+  
+  // Guests cancelling through their manage link already know; changes by staff are passed on
+  if (changed_by !== 'guest' && events.length > 0) {
+    const { guestNotifications } = await getBookingRules();
+    await notifyReservationChange(data, events.filter(event => guestNotifications[event]));
+  }
+  
+  return data;
+}
+
+// Update reservation status. A new date, time, party size or table, and a cancelled or no-show
+// reservation that is put back, are re-checked under the date lock, so staff can't put a reservation
+// on a table a guest booked a moment earlier.
+app.patch('/api/reservations/:id', requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { status, guests, date, time, table_id, combined_table_ids } = req.body;
+    
+    const moved = guests !== undefined || date !== undefined || time !== undefined || table_id !== undefined || combined_table_ids !== undefined;
+    if (!moved && status === undefined) {
+      return res.json(await updateReservation(id, req.body));
+    }
+    
+    const { data: current, error } = await supabase
+      .from('reservations')
+      .select('*')
+      .eq('id', id)
       .single();
     
     if (error) throw error;
+    
+    const reactivated = status !== undefined && ACTIVE_RESERVATION_STATUSES.includes(status) &&
+      !ACTIVE_RESERVATION_STATUSES.includes(current.status);
+    if (!moved && !reactivated) {
+      return res.json(await updateReservation(id, req.body));
+    }
+    
+    const target = {
+      ...current,
+      status: status ?? current.status,
+      guests: guests ?? current.guests,
+      date: date ?? current.date,
+      time: time ?? current.time,
+      table_id: table_id ?? current.table_id,
+      combined_table_ids: combined_table_ids ?? current.combined_table_ids
+    };
+    
+    const data = await withDateLock(target.date, async () => {
+      if (ACTIVE_RESERVATION_STATUSES.includes(target.status)) {
+        const reservations = await getActiveReservations(target.date, id);
+        const rules = getReservationRules(await getBookingRules(), target.date, target);
+        if (findTablesConflict(getReservationTableIds(target), reservations, target.time, rules)) {
+          return res.status(409).json({ error: 'Deze tafel is op dit tijdstip al bezet', code: 'SLOT_TAKEN' });
+        }
+        
+        // A new arrival time or party size, or a reservation that is back on, counts for the kitchen again
+        const arrivalChanged = reactivated || target.date !== current.date ||
+          target.time.slice(0, 5) !== current.time.slice(0, 5) || Number(target.guests) !== Number(current.guests);
+        if (arrivalChanged && isPacingLimitReached(rules, target.date, reservations, target.time, Number(target.guests))) {
+          return res.status(409).json({ error: 'De keuken zit rond dit tijdstip al vol. Kies een andere tijd.', code: 'SLOT_TAKEN' });
+        }
+      }
+      
+      return updateReservation(id, req.body);
+    });
+    
+    if (res.headersSent) return;
+    res.json(data);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Apply a table plan from the dashboard (`moves` of { reservation_id, table_ids }) in one go under
+// the date lock. The moves are checked together, as a plan may swap tables between reservations.
+app.post('/api/table-plan', requireStaff, async (req, res) => {
+  try {
+    const { date, moves } = req.body;
+    
+    if (!date || !Array.isArray(moves) || moves.some(move => !move.reservation_id || !move.table_ids?.length)) {
+      return res.status(400).json({ error: 'Date and moves are required' });
+    }
+    
+    let movedReservations = [];
+    await withDateLock(date, async () => {
+      const reservations = await getActiveReservations(date);
+      const bookingRules = await getBookingRules();
+      const planned = reservations.map(reservation => {
+        const move = moves.find(m => m.reservation_id === reservation.id);
+        return move ? { ...reservation, table_id: move.table_ids[0], combined_table_ids: move.table_ids.slice(1) } : reservation;
+      });
+      
+      // Reservations that were cancelled or changed since the plan was made can't be moved blindly
+      const stale = moves.some(move => !reservations.find(reservation => reservation.id === move.reservation_id));
+      const clash = planned
+        .filter(reservation => moves.some(move => move.reservation_id === reservation.id))
+        .some(reservation => findTablesConflict(
+          getReservationTableIds(reservation),
+          planned.filter(other => other.id !== reservation.id),
+          reservation.time,
+          getReservationRules(bookingRules, date, reservation)
+        ));
+      if (stale || clash) {
+        return res.status(409).json({ error: 'De reserveringen zijn intussen gewijzigd. Maak de tafelindeling opnieuw.', code: 'SLOT_TAKEN' });
+      }
+      
+      movedReservations = await applyTableMoves(moves.map(move => ({ reservation: { id: move.reservation_id }, tableIds: move.table_ids })));
+    });
+    
+    if (res.headersSent) return;
+    
+    await notifyTableMoves(movedReservations);
+    res.json(movedReservations);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Reservation taken by staff, e.g. over the phone, on the table they picked. Checked for a double
+// booking under the date lock like a booking from the website; the limits for online bookings,
+// such as the advance window and kitchen pacing, are left to staff.
+app.post('/api/staff/reservations', requireStaff, async (req, res) => {
+  try {
+    const { table_id, customer_name, customer_email, customer_phone, guests, date, time, notes } = req.body;
+    
+    if (!table_id || !customer_name || !guests || !date || !time) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+    
+    const data = await withDateLock(date, async () => {
+      const bookingRules = getPartyBookingRules(await getBookingRules(), date, parseInt(guests));
+      const reservations = await getActiveReservations(date);
+      if (findConflictingReservation(table_id, reservations, time, bookingRules)) {
+        return res.status(409).json({ error: 'Deze tafel is op dit tijdstip al bezet', code: 'SLOT_TAKEN' });
+      }
+      
+      const { data: reservation, error } = await supabase
+        .from('reservations')
+        .insert([{
+          table_id,
+          combined_table_ids: [],
+          customer_name,
+          customer_email,
+          customer_phone,
+          guests: parseInt(guests),
+          date,
+          time,
+          duration_hours: bookingRules.durationHours,
+          buffer_minutes: bookingRules.bufferMinutes,
+          notes,
+          status: 'confirmed'
+        }])
+        .select(RESERVATION_WITH_TABLE)
+        .single();
+      
+      if (error) throw error;
+      return { ...reservation, manage_token: await createManageToken(reservation.id) };
+    });
+    
+    if (res.headersSent) return;
+    res.status(201).json(data);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The guest's reservation behind their manage link
+app.get('/api/manage/:token', async (req, res) => {
+  try {
+    const reservation = await findReservationByToken(req.params.token);
+    if (!reservation) {
+      return res.status(404).json({ error: 'Reservation not found' });
+    }
+    
+    res.json(reservation);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Changes a guest can make through their manage link: cancel, confirm they're coming, or a new
+// date, time or party size. Only upcoming reservations that haven't been seated yet can be changed.
+app.patch('/api/manage/:token', async (req, res) => {
+  try {
+    const { status, attendance_confirmed, date, time, guests, expected_deposit } = req.body;
+    
+    const reservation = await findReservationByToken(req.params.token);
+    if (!reservation) {
+      return res.status(404).json({ error: 'Reservation not found' });
+    }
+    
+    if (status !== undefined && status !== 'cancelled') {
+      return res.status(400).json({ error: 'Guests can only cancel a reservation' });
+    }
+    
+    const bookingRules = await getBookingRules();
+    const { timeZone } = bookingRules;
+    if (!GUEST_MANAGEABLE_STATUSES.includes(reservation.status) ||
+        getMinutesUntil(getRestaurantNow(timeZone), reservation.date, reservation.time) <= 0) {
+      return res.status(409).json({ error: 'Deze reservering kan niet meer online worden gewijzigd. Neem contact met ons op.' });
+    }
+    
+    const changes = { changed_by: 'guest' };
+    if (status !== undefined) changes.status = status;
+    if (attendance_confirmed !== undefined) changes.attendance_confirmed = !!attendance_confirmed;
+    
+    if (date === undefined && time === undefined && guests === undefined) {
+      return res.json(await updateReservation(reservation.id, changes));
+    }
+    
+    if (!date || !time || !guests) {
+      return res.status(400).json({ error: 'Date, time and guests are required' });
+    }
+    
+    // Same rules as a new booking: advance limits, opening hours, kitchen pacing and a free table
+    const partyRules = getPartyBookingRules(bookingRules, date, parseInt(guests));
+    const bookingWindowError = getBookingWindowError(partyRules, date, time, getRestaurantNow(timeZone));
+    if (bookingWindowError) {
+      return res.status(400).json({ error: bookingWindowError });
+    }
+    
+    const closureError = getClosureError(partyRules, date, time);
+    if (closureError) {
+      return res.status(400).json({ error: closureError });
+    }
+    
+    // A larger party or another date may need a deposit, like a new booking. Without a paid deposit
+    // the guest pays it before the change is confirmed; when a paid deposit no longer covers the
+    // party, the restaurant confirms the change and settles the difference.
+    const guestProfile = await getGuestProfile(reservation.customer_phone, reservation.customer_email);
+    const depositAmount = getDepositAmount(partyRules, date, parseInt(guests), !!guestProfile?.require_deposit);
+    const paidDeposit = reservation.deposit_status === 'paid' ? Number(reservation.deposit_amount) : 0;
+    const depositDue = status === undefined && paidDeposit === 0 ? depositAmount : 0;
+    if (depositDue > 0 && Number(expected_deposit || 0) !== depositDue) {
+      return res.status(409).json({
+        error: `Voor deze wijziging vragen we een aanbetaling van €${depositDue.toFixed(2)}. Sla je wijziging opnieuw op om te betalen.`,
+        code: 'DEPOSIT_REQUIRED',
+        deposit_amount: depositDue
+      });
+    }
+    
+    // The tables are picked under the date lock, keeping the area preference and needs the guest
+    // gave when booking
+    const data = await withDateLock(date, async () => {
+      const reservations = await getActiveReservations(date, reservation.id);
+      const { data: allTables, error: tablesError } = await supabase
+        .from('tables')
+        .select('*')
+        .order('seats');
+      
+      if (tablesError) throw tablesError;
+      
+      if (isPacingLimitReached(partyRules, date, reservations, time, parseInt(guests))) {
+        return res.status(409).json({ error: 'De keuken zit rond dit tijdstip al vol. Kies een andere tijd.', code: 'SLOT_TAKEN' });
+      }
+      
+      const assignment = findPreferredTableAssignment(
+        filterTablesByNeeds(allTables, reservation.needs),
+        await getAreas(),
+        reservations,
+        time,
+        parseInt(guests),
+        partyRules,
+        date,
+        { areaId: reservation.preferred_area_id || null, allowFallback: !!reservation.allow_area_fallback }
+      );
+      if (!assignment) {
+        return res.status(409).json({ error: 'Er is geen tafel beschikbaar op dit moment. Kies een andere datum of tijd.', code: 'SLOT_TAKEN' });
+      }
+      
+      // A larger party or another date may need the owner's approval, like a new booking. A party
+      // that was already approved can shrink or move to another time without asking again.
+      const needsApproval = requiresApproval(bookingRules, date, parseInt(guests)) &&
+        (parseInt(guests) > reservation.guests || date !== reservation.date);
+      if (depositDue > 0) {
+        Object.assign(changes, {
+          status: 'awaiting_payment',
+          hold_expires_at: new Date(Date.now() + PAYMENT_HOLD_MINUTES * 60 * 1000).toISOString(),
+          deposit_amount: depositDue,
+          deposit_status: 'open'
+        });
+      } else if (status === undefined && reservation.status === 'confirmed' && (needsApproval || depositAmount > paidDeposit)) {
+        changes.status = 'pending';
+        changes.hold_expires_at = getApprovalHoldExpiry(bookingRules);
+      }
+      
+      return updateReservation(reservation.id, {
+        ...changes,
+        date,
+        time,
+        guests: parseInt(guests),
+        table_id: assignment[0].id,
+        combined_table_ids: assignment.slice(1).map(table => table.id),
+        duration_hours: partyRules.durationHours,
+        buffer_minutes: partyRules.bufferMinutes
+      });
+    });
+    
+    if (res.headersSent) return;
+    
+    // Take the deposit; the change is only confirmed once the payment succeeded
+    if (data.status === 'awaiting_payment') {
+      const { settled, checkoutUrl } = await startDepositPayment(data, `Aanbetaling reservering ${date} ${time} (${guests} gasten)`);
+      if (!settled || settled.status === 'cancelled') {
+        return res.status(402).json({ error: CHANGE_PAYMENT_FAILED_MESSAGE, code: 'PAYMENT_FAILED' });
+      }
+      
+      if (settled.status === 'awaiting_payment') {
+        return res.json({ ...settled, checkout_url: checkoutUrl });
+      }
+      
+      await notifyBookingReceived(settled);
+      return res.json(settled);
+    }
+    
     res.json(data);
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -299,7 +1469,7 @@ app.patch('/api/reservations/:id', async (req, res) => {
 });
 
 // Delete reservation
-app.delete('/api/reservations/:id', async (req, res) => {
+app.delete('/api/reservations/:id', requireStaff, async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -407,7 +1577,7 @@ app.delete('/api/orders/:id', async (req, res) => {
 // Get available tables for a specific date and time
 app.get('/api/tables/available', async (req, res) => {
   try {
-    const { date, time } = req.query;
+    const { date, time, guests } = req.query;
     
     if (!date || !time) {
       return res.status(400).json({ error: 'Date and time are required' });
@@ -420,48 +1590,228 @@ app.get('/api/tables/available', async (req, res) => {
     
     if (tablesError) throw tablesError;
     
-    // Calculate time slots with buffer for overlap check
-    const bufferStartTime = addMinutesToTime(time, -BUFFER_MINUTES);
-    const reservationEndTime = addMinutesToTime(time, RESERVATION_DURATION_HOURS * 60);
-    const bufferEndTime = addMinutesToTime(reservationEndTime, BUFFER_MINUTES);
-    
     // Get all reservations for the date
     const { data: allReservations, error: reservationsError } = await supabase
       .from('reservations')
-      .select('table_id, time, status, duration_hours, buffer_minutes')
+      .select('table_id, combined_table_ids, time, guests, status, duration_hours, buffer_minutes')
       .eq('date', date)
-      .in('status', ['confirmed', 'arrived', 'in_progress']);
+      .in('status', ACTIVE_RESERVATION_STATUSES);
     
     if (reservationsError) throw reservationsError;
     
     // Check each table for availability
-    const availableTables = allTables.filter(table => {
-      const tableReservations = allReservations.filter(r => r.table_id === table.id);
-      
-      // Check if any reservation overlaps with the requested time
-      for (const reservation of tableReservations) {
-        const existingTime = reservation.time;
-        const existingDuration = reservation.duration_hours || RESERVATION_DURATION_HOURS;
-        const existingBuffer = reservation.buffer_minutes || BUFFER_MINUTES;
-        
-        const existingBufferStart = addMinutesToTime(existingTime, -existingBuffer);
-        const existingReservationEnd = addMinutesToTime(existingTime, existingDuration * 60);
-        const existingBufferEnd = addMinutesToTime(existingReservationEnd, existingBuffer);
-        
-        if (hasTimeOverlap(bufferStartTime, bufferEndTime, existingBufferStart, existingBufferEnd)) {
-          return false; // Table is not available
-        }
+    const bookingRules = getPartyBookingRules(await getBookingRules(), date, parseInt(guests) || 0);
+    const openTables = getOpenTables(allTables, await getAreas(), date);
+    const availableTables = getAvailableTables(openTables, allReservations, time, bookingRules);
+    
+    res.json(availableTables);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Offer a freed-up slot to a guest on the waitlist: book the table and notify the guest
+app.post('/api/waitlist/:id/offer', requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { time } = req.body;
+    
+    if (!time) {
+      return res.status(400).json({ error: 'Time is required' });
+    }
+    
+    const { data: entry, error: entryError } = await supabase
+      .from('waitlist')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (entryError) throw entryError;
+    
+    if (entry.status !== 'waiting') {
+      return res.status(400).json({ error: 'Deze gast staat niet meer op de wachtlijst' });
+    }
+    
+    // Re-check and book under the date lock, like a booking from the website
+    let movedReservations = [];
+    const reservation = await withDateLock(entry.date, async () => {
+      // Re-check that a table is still free for the party
+      const { data: allTables, error: tablesError } = await supabase
+        .from('tables')
+        .select('*');
+      
+      if (tablesError) throw tablesError;
+      
+      const { data: allReservations, error: reservationsError } = await supabase
+        .from('reservations')
+        .select('id, table_id, combined_table_ids, time, guests, status, duration_hours, buffer_minutes, preferred_area_id, allow_area_fallback, needs, table_locked')
+        .eq('date', entry.date)
+        .in('status', ACTIVE_RESERVATION_STATUSES);
+      
+      if (reservationsError) throw reservationsError;
+      
+      const bookingRules = getPartyBookingRules(await getBookingRules(), entry.date, entry.guests);
+      const areas = await getAreas();
+      const openTables = getOpenTables(allTables, areas, entry.date);
+      const assignment = findTableAssignment(openTables, allReservations, time, entry.guests, bookingRules);
+      
+      // Without a free table, try re-planning the unseated reservations to make room
+      const plan = assignment ? null : optimizeTableAssignments(allTables, areas, allReservations, bookingRules, entry.date, {
+        table_id: '',
+        time,
+        guests: entry.guests,
+        duration_hours: bookingRules.durationHours,
+        buffer_minutes: bookingRules.bufferMinutes,
+        allow_area_fallback: true
+      });
+      const tableIds = assignment ? assignment.map(table => table.id) : plan?.bookingTableIds;
+      if (!tableIds || isPacingLimitReached(bookingRules, entry.date, allReservations, time, entry.guests)) {
+        return res.status(409).json({ error: `Er is om ${time} geen tafel meer vrij voor ${entry.guests} gasten`, code: 'SLOT_TAKEN' });
       }
       
-      return true; // Table is available
+      if (plan) {
+        movedReservations = await applyTableMoves(plan.moves);
+      }
+      
+      const { data: reservation, error: reservationError } = await supabase
+        .from('reservations')
+        .insert([{
+          table_id: tableIds[0],
+          combined_table_ids: tableIds.slice(1),
+          customer_name: entry.customer_name,
+          customer_email: entry.customer_email,
+          customer_phone: entry.customer_phone,
+          guests: entry.guests,
+          date: entry.date,
+          time,
+          duration_hours: bookingRules.durationHours,
+          buffer_minutes: bookingRules.bufferMinutes,
+          notes: entry.notes,
+          status: 'confirmed'
+        }])
+        .select()
+        .single();
+      
+      if (reservationError) throw reservationError;
+      await createManageToken(reservation.id);
+      
+      const { error: updateError } = await supabase
+        .from('waitlist')
+        .update({
+          status: 'offered',
+          offered_reservation_id: reservation.id,
+          offered_at: new Date().toISOString()
+        })
+        .eq('id', id);
+      
+      if (updateError) throw updateError;
+      return reservation;
     });
     
-    res.json(availableTables);
+    if (res.headersSent) return;
+    
+    await notifyTableMoves(movedReservations);
+    
+    // Notify the guest
+    const message = `Goed nieuws! Er is een tafel vrijgekomen voor ${entry.guests} gasten op ${entry.date} om ${time}. We hebben deze voor je gereserveerd. Kun je toch niet komen? Annuleer dan via ${await getManageReservationUrl(reservation)}`;
+    const log = { reservationId: reservation.id, event: 'waitlist_offer' };
+    if (entry.customer_phone) {
+      await sendSMS(entry.customer_phone, message, log);
+    }
+    
+    if (entry.customer_email) {
+      await sendEmail(entry.customer_email, 'Er is een tafel vrijgekomen', message, log, await getCalendarInviteAttachments(reservation));
+    }
+    
+    res.status(201).json(reservation);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Upcoming reservations for a staff member's calendar app (.ics) or other tools (.json), behind the
+// secret token of a feed made in Settings. Revoking the feed there makes the link stop working.
+app.get('/api/feeds/:token.:format', async (req, res) => {
+  try {
+    const { token, format } = req.params;
+    
+    if (format !== 'ics' && format !== 'json') {
+      return res.status(404).json({ error: 'Unknown feed format' });
+    }
+    
+    const { data: feed, error: feedError } = await supabase
+      .from('staff_feeds')
+      .select('*')
+      .eq('token', token)
+      .maybeSingle();
+    
+    if (feedError) throw feedError;
+    
+    if (!feed) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+    
+    const [settingsResult, tablesResult] = await Promise.all([
+      supabase.from('restaurant_settings').select('setting_key, setting_value'),
+      supabase.from('tables').select('id, name, area_id')
+    ]);
+    
+    if (settingsResult.error) throw settingsResult.error;
+    if (tablesResult.error) throw tablesResult.error;
+    
+    const { timeZone } = parseBookingRules(settingsResult.data);
+    const tables = tablesResult.data || [];
+    
+    // Same reservations as the dashboard, from today on and only those that still hold a table
+    let query = supabase
+      .from('reservations')
+      .select(RESERVATION_WITH_TABLE)
+      .gte('date', getRestaurantToday(timeZone))
+      .in('status', ACTIVE_RESERVATION_STATUSES)
+      .order('date', { ascending: true })
+      .order('time', { ascending: true });
+    
+    if (feed.min_guests) {
+      query = query.gte('guests', feed.min_guests);
+    }
+    
+    const { data, error } = await query;
+    
+    if (error) throw error;
+    
+    // The area of a reservation is the area of its main table
+    const reservations = (data || [])
+      .filter(reservation => !feed.area_id || tables.find(table => table.id === reservation.table_id)?.area_id === feed.area_id)
+      .map(reservation => ({
+        ...reservation,
+        table_names: getReservationTableIds(reservation)
+          .map(tableId => tables.find(table => table.id === tableId)?.name)
+          .filter(Boolean)
+          .join(' + ')
+      }));
+    
+    if (format === 'json') {
+      return res.json({ name: feed.name, area_id: feed.area_id, min_guests: feed.min_guests, reservations });
+    }
+    
+    res.type('text/calendar; charset=utf-8').send(buildReservationFeed(reservations, {
+      name: feed.name,
+      restaurant: parseRestaurantDetails(settingsResult.data),
+      timeZone
+    }));
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// Messages sent by the local notification provider, for development and tests
+app.get('/api/notifications/outbox', (req, res) => {
+  if (!notifications.outbox) {
+    return res.status(404).json({ error: 'Only available with NOTIFICATION_PROVIDER=local' });
+  }
+  res.json(notifications.outbox);
+});
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
@@ -471,4 +1821,8 @@ app.get('/api/health', (req, res) => {
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Health check: http://localhost:${PORT}/api/health`);
+  
+  // Check for expired holds every minute and for due reminders every 5 minutes
+  setInterval(expirePendingReservations, 60 * 1000);
+  setInterval(sendDueReminders, 5 * 60 * 1000);
 });
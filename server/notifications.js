@@ -0,0 +1,105 @@
+// Messages to guests. The server only sends SMS and email through this interface, so the
+// Twilio/SMTP setup can be swapped for the local stand-in during development and tests:
+//
+//   sendSMS(to, message)
+//   sendEmail(to, subject, message, attachments)
+//
+// Attachments are { filename, content, contentType }, e.g. a calendar invite.
+//
+// Both throw when sending fails; index.js logs the error and carries on.
+
+// Twilio for SMS and SMTP for email, configured from .env. A channel that isn't configured is
+// skipped with a log line. Loaded here so the local provider works without these packages.
+function createLiveProvider() {
+  const twilio = require('twilio');
+  const nodemailer = require('nodemailer');
+
+  const twilioClient = process.env.TWILIO_ACCOUNT_SID
+    ? twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN)
+    : null;
+
+  const emailTransporter = process.env.EMAIL_USER
+    ? nodemailer.createTransport({
+      host: process.env.EMAIL_HOST,
+      port: process.env.EMAIL_PORT,
+      secure: false,
+      auth: {
+        user: process.env.EMAIL_USER,
+        pass: process.env.EMAIL_PASS,
+      },
+    })
+    : null;
+
+  return {
+    name: 'live',
+
+    async sendSMS(to, message) {
+      if (!twilioClient) {
+        console.log('SMS not configured, skipping:', message);
+        return;
+      }
+
+      await twilioClient.messages.create({
+        body: message,
+        from: process.env.TWILIO_PHONE_NUMBER,
+        to
+      });
+      console.log('SMS sent successfully');
+    },
+
+    async sendEmail(to, subject, message, attachments = []) {
+      if (!emailTransporter) {
+        console.log('Email not configured, skipping:', message);
+        return;
+      }
+
+      await emailTransporter.sendMail({
+        from: process.env.EMAIL_USER,
+        to,
+        subject,
+        text: message,
+        attachments
+      });
+      console.log('Email sent successfully');
+    }
+  };
+}
+
+// Local stand-in: messages are printed and kept in memory (newest last), see GET /api/notifications/outbox
+function createLocalProvider() {
+  const outbox = [];
+
+  const record = (message) => {
+    outbox.push({ ...message, sent_at: new Date().toISOString() });
+    console.log(`[${message.channel}] to ${message.to}${message.subject ? ` - ${message.subject}` : ''}\n${message.message}`);
+  };
+
+  return {
+    name: 'local',
+    outbox,
+
+    async sendSMS(to, message) {
+      record({ channel: 'sms', to, message });
+    },
+
+    async sendEmail(to, subject, message, attachments = []) {
+      record({ channel: 'email', to, subject, message, attachments });
+    }
+  };
+}
+
+const providers = {
+  live: createLiveProvider,
+  local: createLocalProvider
+};
+
+// Notification provider chosen with NOTIFICATION_PROVIDER (default: Twilio and SMTP)
+function createNotificationProvider(name = process.env.NOTIFICATION_PROVIDER || 'live') {
+  const createProvider = providers[name];
+  if (!createProvider) {
+    throw new Error(`Unknown notification provider: ${name}`);
+  }
+  return createProvider();
+}
+
+module.exports = { createNotificationProvider };
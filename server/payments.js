@@ -0,0 +1,80 @@
+const crypto = require('crypto');
+
+// Deposit payments. The booking code only talks to a provider through this interface, so a real
+// provider (Mollie, Stripe, ...) can be added to `providers` without changing the routes:
+//
+//   createPayment({ amount, description, reference, redirectUrl }) -> { id, status, amount, reference, checkoutUrl }
+//   getPayment(id) -> { id, status, amount, reference }, or null when the provider doesn't know the id
+//   refundPayment(id, amount) -> { id, status, amount }
+//   verifyWebhook(headers, rawBody) -> true when a webhook call really comes from the provider
+//
+// Amounts are in euros and `reference` is the reservation id. A payment's status is 'open' (the guest
+// still has to pay at checkoutUrl), 'paid' or 'failed'. Providers that confirm payments later should
+// call POST /api/payments/webhook with the payment id; the server checks the call with verifyWebhook
+// (e.g. the provider's signature) and always reads the status from getPayment, never from the call.
+
+// Local provider for development: payments succeed straight away, or fail when
+// FAKE_PAYMENT_RESULT=failed. Payments are kept in memory and lost on restart, and only payments made
+// by this process are known to its webhook. Refused when NODE_ENV=production.
+function createFakeProvider() {
+  const payments = new Map();
+
+  return {
+    name: 'fake',
+
+    async createPayment({ amount, description, reference }) {
+      const payment = {
+        id: `fake_${crypto.randomBytes(8).toString('hex')}`,
+        status: process.env.FAKE_PAYMENT_RESULT === 'failed' ? 'failed' : 'paid',
+        amount,
+        description,
+        reference,
+        checkoutUrl: null
+      };
+      payments.set(payment.id, payment);
+      console.log(`Fake payment ${payment.id} of €${amount.toFixed(2)}: ${payment.status}`);
+      return payment;
+    },
+
+    async getPayment(id) {
+      return payments.get(id) || null;
+    },
+
+    async refundPayment(id, amount) {
+      const payment = await this.getPayment(id);
+      if (!payment || payment.status !== 'paid') throw new Error(`Payment ${id} can't be refunded`);
+
+      console.log(`Fake refund of €${amount.toFixed(2)} for payment ${id}`);
+      return { id: `fake_refund_${crypto.randomBytes(8).toString('hex')}`, status: 'refunded', amount };
+    },
+
+    // Nothing to sign locally; getPayment only knows the payments made here
+    verifyWebhook() {
+      return true;
+    }
+  };
+}
+
+const providers = {
+  fake: createFakeProvider
+};
+
+// Payment provider chosen with PAYMENT_PROVIDER. It has to be set explicitly, and the fake provider,
+// which marks payments as paid without taking any money, can't be used in production.
+function createPaymentProvider(name = process.env.PAYMENT_PROVIDER) {
+  if (!name) {
+    throw new Error('PAYMENT_PROVIDER is not set (use "fake" for development)');
+  }
+  
+  const createProvider = providers[name];
+  if (!createProvider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+  
+  if (name === 'fake' && process.env.NODE_ENV === 'production') {
+    throw new Error('The fake payment provider can\'t be used with NODE_ENV=production');
+  }
+  return createProvider();
+}
+
+module.exports = { createPaymentProvider };